@@ -0,0 +1,73 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { collectExportFiles, exportSnapshot } from './services/exporter';
+import { parseSnapshot } from './services/snapshot';
+import { normalizeSettings } from './services/settings';
+
+/**
+ * フレームのスナップショット（JSON）をHTML/スタイルに変換するコマンドラインツール
+ *
+ * 使い方: node dist-cli/cli.mjs <snapshot.json> [--out <dir>] [--settings <settings.json>] [--target <target>]
+ * - --out: 書き出し先のディレクトリ（指定がない場合はマークアップとスタイルを標準出力に出力）
+ * - --settings: 書き出しの設定のJSON（プラグインの "Export settings" で保存したもの。指定がない場合はスナップショットの設定）
+ * - --target: 出力ターゲット（scss, css, css-modules, tailwind, react, vue, astro）
+ */
+
+const USAGE = 'Usage: cli <snapshot.json> [--out <dir>] [--settings <settings.json>] [--target <target>]';
+
+/**
+ * コマンドライン引数を解析する
+ * @param args - コマンドライン引数（node とスクリプトのパスを除く）
+ * @returns 入力ファイルとオプション
+ */
+function parseArgs(args: string[]): { input?: string, options: Record<string, string> } {
+    const options: Record<string, string> = {};
+    let input: string | undefined;
+
+    for (let i = 0; i < args.length; i++) {
+        if (args[i].startsWith('--')) {
+            options[args[i].slice(2)] = args[++i];
+        } else {
+            input = args[i];
+        }
+    }
+
+    return { input, options };
+}
+
+async function main() {
+    const { input, options } = parseArgs(process.argv.slice(2));
+    if (!input) {
+        console.error(USAGE);
+        process.exit(1);
+    }
+
+    const document = parseSnapshot(readFileSync(input, 'utf8'));
+
+    // 設定ファイルとターゲットの指定でスナップショットの設定を上書きする
+    const overrides = options.settings ? JSON.parse(readFileSync(options.settings, 'utf8')) : {};
+    const settings = normalizeSettings({
+        ...document.settings,
+        ...overrides,
+        ...(options.target ? { target: options.target } : {})
+    });
+
+    const output = await exportSnapshot(document, settings);
+
+    if (!options.out) {
+        process.stdout.write(`${output.html}\n`);
+        if (output.styles) process.stdout.write(`\n${output.styles}\n`);
+        return;
+    }
+
+    collectExportFiles(output).forEach(file => {
+        const path = join(options.out, file.path);
+        mkdirSync(dirname(path), { recursive: true });
+        writeFileSync(path, file.data);
+    });
+}
+
+main().catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+});
@@ -1,15 +1,23 @@
-import { getTopLevelFrames } from './services/frames';
-import { generateElementData } from './services/html-generator';
-import { generateHTML } from './services/html-generator';
-import { generateSCSS } from './services/scss-generator';
+import { getDocumentFrames, getSelectedFrames, getTopLevelFrames } from './services/frames';
+import { duplicateBreakpoints, findBreakpoint, previewBreakpoint, restoreLayoutPreview } from './services/layout-preview';
+import { collectExportFiles, exportFrame, exportFrames } from './services/exporter';
+import { applyRename, planRename, revertRename } from './services/naming';
+import { createSnapshot } from './services/snapshot';
+import { lintFrame } from './services/lint';
+import { auditFrame } from './services/accessibility';
+import { createZip } from './services/zip';
+import { loadSettings, normalizeSettings, saveSettings } from './services/settings';
 
 // プラグインウィンドウのサイズを設定
 figma.showUI(__html__, {
     width: 320,
-    height: 590,
+    height: 670,
     themeColors: true
 });
 
+// 一括書き出しの中止が要求されたかどうか
+let batchCancelled = false;
+
 function sendFramesToUI() {
     const frames = getTopLevelFrames();
     figma.ui.postMessage({
@@ -22,16 +30,32 @@ function sendFramesToUI() {
     });
 }
 
-figma.ui.onmessage = async (msg: { type: string, frameId?: string, message?: string }) => {
+figma.ui.onmessage = async (msg: { type: string, frameId?: string, message?: string, settings?: unknown, ids?: string[], nodeId?: string, name?: string, breakpoint?: string, scope?: 'selection' | 'page' | 'file' }) => {
+    // UIから送られた設定（不足・不正な項目はデフォルト値）
+    const settings = normalizeSettings(msg.settings);
+
     switch (msg.type) {
         case 'get-frames':
             sendFramesToUI();
             break;
+        case 'get-settings':
+            figma.ui.postMessage({ type: 'settings', settings: await loadSettings() });
+            break;
+        case 'save-settings':
+            try {
+                await saveSettings(settings);
+                figma.ui.postMessage({ type: 'settings', settings });
+            } catch (error) {
+                console.error('Error in save settings:', error);
+                figma.notify('設定の保存に失敗しました', { error: true });
+            }
+            break;
         case 'show-notification':
             if (msg.message) {
                 figma.notify(msg.message);
             }
             break;
+        case 'rename-preview':
         case 'rename':
             if (msg.frameId) {
                 try {
@@ -40,55 +64,24 @@ figma.ui.onmessage = async (msg: { type: string, frameId?: string, message?: str
                         throw new Error('Invalid frame ID');
                     }
 
-                    // 再帰的にレイヤー名を変更する関数
-                    async function renameLayer(node: SceneNode, isTopLevel = false) {
-                        // HTMLタグ形式かクラス名付きかどうかをチェックする関数
-                        function shouldSkipRename(name: string): boolean {
-                            // 以下のパターンをスキップ:
-                            // - タグ名の後に.が続くもの（例: div.class-name）
-                            // - タグ名の後に[が続くもの（例: img[src="..."]）
-                            return /^(div|p|img)[\.\[]/.test(name);
-                        }
-
-                        // トップレベルのフレーム以外のノードの名前を変更
-                        if (!isTopLevel && !shouldSkipRename(node.name)) {
-                            // テキストノードの場合は p に
-                            if (node.type === 'TEXT') {
-                                node.name = 'p';
-                            }
-                            // フレームの場合は div に
-                            else if (node.type === 'FRAME') {
-                                node.name = 'div';
-                            }
-                            // 画像の場合は img に
-                            else if (node.type === 'RECTANGLE' && 'fills' in node && Array.isArray(node.fills) && node.fills.length > 0) {
-                                const fill = node.fills[0];
-                                if (fill.type === 'IMAGE') {
-                                    // 画像のサイズを取得して、デフォルトのsrc属性を設定
-                                    const width = Math.round(node.width);
-                                    const height = Math.round(node.height);
-                                    node.name = `img[src="https://placehold.jp/${width}x${height}.png"]`;
-                                } else {
-                                    node.name = 'div';
-                                }
-                            }
-                            // その他のノードは div に
-                            else {
-                                node.name = 'div';
-                            }
-                        }
+                    // 見出し・ボタン・リスト・ランドマークとBEMのクラス名を推定したレイヤー名を生成
+                    // レイヤー名の記法で書かれたレイヤーとトップレベルのフレームは変更しない
+                    const changes = planRename(node, {
+                        semantic: settings.semanticNaming,
+                        bem: settings.bemNaming,
+                        placeholderUrl: settings.placeholderUrl
+                    });
 
-                        // 子要素があれば再帰的に処理（子要素は常にトップレベルではない）
-                        if ('children' in node) {
-                            for (const child of node.children) {
-                                await renameLayer(child, false);
-                            }
-                        }
+                    // プレビューの場合はレイヤー名を変更せずに変更内容だけを返す
+                    if (msg.type === 'rename-preview') {
+                        figma.ui.postMessage({ type: 'rename-preview', changes });
+                        break;
                     }
 
-                    // トップレベルのフレームとして処理を開始
-                    await renameLayer(node, true);
-                    figma.notify('レイヤー名を変更しました');
+                    // プレビューで承認された変更がある場合はそれだけを適用する
+                    const approved = msg.ids ? changes.filter(change => msg.ids?.includes(change.id)) : changes;
+                    const count = await applyRename(approved);
+                    figma.notify(`${count}件のレイヤー名を変更しました`);
 
                 } catch (error) {
                     console.error('Error in rename:', error);
@@ -96,124 +89,209 @@ figma.ui.onmessage = async (msg: { type: string, frameId?: string, message?: str
                 }
             }
             break;
-        case 'sp-layout':
+        case 'revert-rename':
             if (msg.frameId) {
                 try {
                     const node = await figma.getNodeByIdAsync(msg.frameId);
                     if (!node || node.type !== 'FRAME') {
                         throw new Error('Invalid frame ID');
                     }
-                    
-                    // SPレイアウト用の設定
-                    node.resize(425, node.height);
-
-                    // 再帰的に.is_pcと.is_spの表示/非表示を切り替える
-                    function toggleVisibility(node: SceneNode) {
-                        // クラス名をチェック
-                        const isPcElement = node.name.includes('.is_pc');
-                        const isSpElement = node.name.includes('.is_sp');
-
-                        // SPモードでの表示/非表示を設定
-                        if (isPcElement) {
-                            node.visible = false;
-                        } else if (isSpElement) {
-                            node.visible = true;
-                        }
 
-                        // 子要素があれば再帰的に処理
-                        if ('children' in node) {
-                            node.children.forEach(child => toggleVisibility(child));
+                    // 保存しておいた変更前のレイヤー名に戻す
+                    const count = revertRename(node);
+                    figma.notify(count > 0 ? `${count}件のレイヤー名を元に戻しました` : '元に戻すレイヤー名はありません');
+
+                } catch (error) {
+                    console.error('Error in revert rename:', error);
+                    figma.notify('レイヤー名を元に戻せませんでした', { error: true });
+                }
+            }
+            break;
+        case 'lint':
+        case 'lint-fix':
+            if (msg.frameId) {
+                try {
+                    const node = await figma.getNodeByIdAsync(msg.frameId);
+                    if (!node || node.type !== 'FRAME') {
+                        throw new Error('Invalid frame ID');
+                    }
+
+                    // クイックフィックスの場合は修正後のレイヤー名を適用してからチェックし直す
+                    if (msg.type === 'lint-fix' && msg.nodeId && msg.name) {
+                        const target = await figma.getNodeByIdAsync(msg.nodeId);
+                        if (target && target.type !== 'DOCUMENT' && target.type !== 'PAGE') {
+                            target.name = msg.name;
                         }
                     }
 
-                    toggleVisibility(node);
-                    figma.notify('SPレイアウトを適用しました');
+                    figma.ui.postMessage({ type: 'lint-result', problems: lintFrame(node) });
+                } catch (error) {
+                    console.error('Error in lint:', error);
+                    figma.notify('レイヤー名のチェックに失敗しました', { error: true });
+                }
+            }
+            break;
+        case 'audit':
+            if (msg.frameId) {
+                try {
+                    const node = await figma.getNodeByIdAsync(msg.frameId);
+                    if (!node || node.type !== 'FRAME') {
+                        throw new Error('Invalid frame ID');
+                    }
 
+                    // タップ領域はSPレイアウトに切り替えて計測する（計測後は元に戻す）
+                    figma.ui.postMessage({ type: 'audit-result', issues: auditFrame(node, settings) });
                 } catch (error) {
-                    console.error('Error in SP layout:', error);
-                    figma.notify('SPレイアウトの適用に失敗しました', { error: true });
+                    console.error('Error in audit:', error);
+                    figma.notify('アクセシビリティのチェックに失敗しました', { error: true });
+                }
+            }
+            break;
+        case 'select-node':
+            if (msg.nodeId) {
+                // 問題のあるレイヤーを選択して表示する（レイヤー名のチェックとアクセシビリティのチェックで共通）
+                const node = await figma.getNodeByIdAsync(msg.nodeId);
+                if (node && node.type !== 'DOCUMENT' && node.type !== 'PAGE') {
+                    figma.currentPage.selection = [node];
+                    figma.viewport.scrollAndZoomIntoView([node]);
                 }
             }
             break;
-        case 'pc-layout':
+        case 'layout-preview':
+        case 'layout-duplicates':
+        case 'layout-restore':
             if (msg.frameId) {
                 try {
                     const node = await figma.getNodeByIdAsync(msg.frameId);
                     if (!node || node.type !== 'FRAME') {
                         throw new Error('Invalid frame ID');
                     }
-                    
-                    // PCレイアウト用の設定
-                    node.resize(1440, node.height);
-
-                    // 再帰的に.is_pcと.is_spの表示/非表示を切り替える
-                    function toggleVisibility(node: SceneNode) {
-                        // クラス名をチェック
-                        const isPcElement = node.name.includes('.is_pc');
-                        const isSpElement = node.name.includes('.is_sp');
-
-                        // PCモードでの表示/非表示を設定
-                        if (isPcElement) {
-                            node.visible = true;
-                        } else if (isSpElement) {
-                            node.visible = false;
-                        }
 
-                        // 子要素があれば再帰的に処理
-                        if ('children' in node) {
-                            node.children.forEach(child => toggleVisibility(child));
+                    const { breakpoints } = settings;
+                    if (msg.type === 'layout-restore') {
+                        // プレビュー前の幅と表示状態に戻し、横並びの複製を削除する
+                        const restored = restoreLayoutPreview(node);
+                        figma.notify(restored ? 'レイアウトを元に戻しました' : '元に戻すレイアウトはありません');
+                    } else if (msg.type === 'layout-duplicates') {
+                        // 各ブレークポイントの複製を元のフレームの右に並べる（元のフレームは変更しない）
+                        const duplicates = duplicateBreakpoints(node, breakpoints);
+                        figma.viewport.scrollAndZoomIntoView([node, ...duplicates]);
+                        figma.notify(`${duplicates.length}件のブレークポイントの複製を作成しました`);
+                    } else {
+                        // ブレークポイントの幅に変更し、.is_{name} の表示/非表示を切り替える（元の状態はフレームに保存）
+                        const breakpoint = findBreakpoint(breakpoints, msg.breakpoint || '');
+                        if (!breakpoint) {
+                            throw new Error(`Unknown breakpoint: ${msg.breakpoint}`);
                         }
+                        previewBreakpoint(node, breakpoint, breakpoints);
+                        figma.notify(`${breakpoint.name}レイアウトをプレビューしています`);
                     }
 
-                    toggleVisibility(node);
-                    figma.notify('PCレイアウトを適用しました');
-
                 } catch (error) {
-                    console.error('Error in PC layout:', error);
-                    figma.notify('PCレイアウトの適用に失敗しました', { error: true });
+                    console.error(`Error in ${msg.type}:`, error);
+                    figma.notify('レイアウトのプレビューに失敗しました', { error: true });
                 }
             }
             break;
-        case 'export':            
+        case 'export':
             if (msg.frameId) {
                 try {
                     const node = await figma.getNodeByIdAsync(msg.frameId);
                     if (!node || node.type !== 'FRAME') {
                         throw new Error('Invalid frame ID');
                     }
-                    
-                    let html = '';
-                    let scss = '';
-
-                    if ('children' in node && Array.isArray(node.children)) {
-                        // 各子要素のElementDataを生成
-                        const childrenElements = node.children.map(child => generateElementData(child));
-
-                        // HTMLとSCSSを別々に生成
-                        html = childrenElements
-                            .map(child => generateHTML(child))
-                            .join('\n');
-
-                        scss = childrenElements
-                            .map(child => generateSCSS(child))
-                            .join('\n\n');
-                    }
+
+                    const output = await exportFrame(node, settings);
+
+                    // HTML/スタイルと画像をZIPにまとめる
+                    const bundle = settings.assets ? createZip(collectExportFiles(output)) : undefined;
 
                     figma.ui.postMessage({
                         type: 'export-output',
-                        html,
-                        scss
+                        html: output.html,
+                        markupFileName: output.markupFileName,
+                        files: output.files,
+                        styles: output.styles,
+                        styleFileName: output.styleFileName,
+                        classMap: output.classMap,
+                        tokens: output.tokens,
+                        document: output.document,
+                        bundle,
+                        bundleName: node.name
                     });
                 } catch (error) {
                     console.error('Error in export:', error);
                     figma.ui.postMessage({
                         type: 'export-output',
                         html: '<!-- Error generating HTML -->',
-                        scss: '// Error generating SCSS'
+                        styles: '/* Error generating styles */',
+                        tokens: ''
                     });
                 }
             }
             break;
+        case 'snapshot':
+            if (msg.frameId) {
+                try {
+                    const node = await figma.getNodeByIdAsync(msg.frameId);
+                    if (!node || node.type !== 'FRAME') {
+                        throw new Error('Invalid frame ID');
+                    }
+
+                    // Figmaの外（CLI）で変換できるように、フレームのノードツリーをJSONとして書き出す
+                    const snapshot = await createSnapshot(node, settings);
+                    figma.ui.postMessage({
+                        type: 'snapshot-output',
+                        json: JSON.stringify(snapshot, null, 2),
+                        name: node.name
+                    });
+                } catch (error) {
+                    console.error('Error in snapshot:', error);
+                    figma.notify('スナップショットの書き出しに失敗しました', { error: true });
+                }
+            }
+            break;
+        case 'batch-export':
+            try {
+                // 選択中のフレーム、現在のページ、またはファイル内の全ページのフレームを書き出す
+                const frames = msg.scope === 'file'
+                    ? await getDocumentFrames()
+                    : msg.scope === 'page' ? getTopLevelFrames() : getSelectedFrames();
+                if (frames.length === 0) {
+                    figma.notify('書き出すフレームがありません', { error: true });
+                    figma.ui.postMessage({ type: 'batch-output', cancelled: true });
+                    break;
+                }
+
+                batchCancelled = false;
+                figma.ui.postMessage({ type: 'export-progress', done: 0, total: frames.length });
+                const files = await exportFrames(frames, settings, {
+                    onProgress: (done, total, name) => figma.ui.postMessage({ type: 'export-progress', done, total, name }),
+                    isCancelled: () => batchCancelled
+                });
+
+                if (!files) {
+                    figma.notify('一括書き出しを中止しました');
+                    figma.ui.postMessage({ type: 'batch-output', cancelled: true });
+                    break;
+                }
+
+                figma.ui.postMessage({
+                    type: 'batch-output',
+                    count: frames.length,
+                    bundle: createZip(files),
+                    bundleName: msg.scope === 'file' ? figma.root.name : figma.currentPage.name
+                });
+                figma.notify(`${frames.length}件のフレームを書き出しました`);
+            } catch (error) {
+                console.error('Error in batch export:', error);
+                figma.notify('一括書き出しに失敗しました', { error: true });
+                figma.ui.postMessage({ type: 'batch-output', cancelled: true });
+            }
+            break;
+        case 'cancel-export':
+            batchCancelled = true;
+            break;
         default:
             console.error('Unknown message type:', msg.type);
     }
@@ -0,0 +1,302 @@
+import { AccessibilityIssue, Breakpoint, ElementData, ExportSettings } from './types';
+import { generateElementData } from './html-generator';
+import { getDominantSegment } from './rich-text';
+import { isVisiblePaint } from './paint';
+import { applyBreakpoint, captureFrameState, restoreFrameState, sortBreakpoints } from './responsive';
+import { isButtonLike } from './naming';
+
+// WCAG AA のコントラスト比の基準（通常のテキスト・大きなテキスト）
+const CONTRAST_AA = 4.5;
+const CONTRAST_AA_LARGE = 3;
+
+// 大きなテキストとみなすフォントサイズ（px、18pt / 太字は14pt）
+const LARGE_TEXT_SIZE = 24;
+const LARGE_BOLD_TEXT_SIZE = 18.66;
+
+// タップ領域の最小サイズ（px）
+const MIN_TAP_TARGET = 44;
+
+// 操作できる要素のタグとロール
+const INTERACTIVE_TAGS = ['a', 'button', 'input', 'select', 'textarea', 'summary'];
+const INTERACTIVE_ROLES = ['button', 'link', 'checkbox', 'radio', 'switch', 'tab', 'menuitem'];
+
+// 必要なランドマーク要素（タグまたはロール）
+const LANDMARKS: { tag: string, role: string }[] = [
+    { tag: 'header', role: 'banner' },
+    { tag: 'main', role: 'main' },
+    { tag: 'footer', role: 'contentinfo' }
+];
+
+// 背景が見つからない場合の背景色（白）
+const DEFAULT_BACKGROUND: RGB = { r: 1, g: 1, b: 1 };
+
+/**
+ * チェック対象の要素とフレームからのレイヤーのパス
+ */
+interface AuditTarget {
+    element: ElementData;
+    node: SceneNode;
+    path: string;
+    /** 操作できる要素（button/a など）の中にあるかどうか */
+    insideInteractive: boolean;
+}
+
+/**
+ * 要素が操作できる要素（button/a など、または操作のロールを持つ要素）かを判定する
+ * @param element - HTML要素のデータ構造
+ * @returns 操作できる要素の場合true
+ */
+function isInteractive(element: ElementData): boolean {
+    return INTERACTIVE_TAGS.includes(element.tag) || INTERACTIVE_ROLES.includes(element.attributes?.['role'] || '');
+}
+
+/**
+ * 要素のツリーから、ノードを持つ要素をツリーの順に取得する
+ * リッチテキストの文字範囲など、親と同じノードの要素は含めない
+ * @param elements - HTML要素のデータ構造
+ * @param frame - 対象のフレーム
+ * @returns チェック対象の要素
+ */
+function collectTargets(elements: ElementData[], frame: FrameNode): AuditTarget[] {
+    const targets: AuditTarget[] = [];
+
+    function collect(element: ElementData, parentNode: SceneNode | undefined, parentPath: string, insideInteractive: boolean) {
+        const node = element._node;
+        const path = node && node !== parentNode ? `${parentPath} / ${node.name}` : parentPath;
+        if (node && node !== parentNode) {
+            targets.push({ element, node, path, insideInteractive });
+        }
+        element.children.forEach(child => collect(child, node || parentNode, path, insideInteractive || isInteractive(element)));
+    }
+    elements.forEach(element => collect(element, undefined, frame.name, false));
+
+    return targets;
+}
+
+/**
+ * 色の相対輝度を計算する（WCAG 2.x）
+ * @param color - 色（0〜1の値）
+ * @returns 相対輝度
+ */
+function getRelativeLuminance(color: RGB): number {
+    const channel = (value: number) => value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+    return 0.2126 * channel(color.r) + 0.7152 * channel(color.g) + 0.0722 * channel(color.b);
+}
+
+/**
+ * 2色のコントラスト比を計算する
+ * @param foreground - 前景色
+ * @param background - 背景色
+ * @returns コントラスト比（1〜21）
+ */
+function getContrastRatio(foreground: RGB, background: RGB): number {
+    const [lighter, darker] = [getRelativeLuminance(foreground), getRelativeLuminance(background)].sort((a, b) => b - a);
+    return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * 半透明の色を背景色に重ねた色を計算する
+ * @param color - 重ねる色
+ * @param alpha - 重ねる色の不透明度
+ * @param background - 背景色
+ * @returns 合成した色
+ */
+function blendColor(color: RGB, alpha: number, background: RGB): RGB {
+    return {
+        r: color.r * alpha + background.r * (1 - alpha),
+        g: color.g * alpha + background.g * (1 - alpha),
+        b: color.b * alpha + background.b * (1 - alpha)
+    };
+}
+
+/**
+ * 塗りの配列で最も上にある表示されている塗りを取得する
+ * @param fills - 塗りの配列
+ * @returns 最も上の塗り（ない場合はundefined）
+ */
+function getTopPaint(fills: readonly Paint[] | PluginAPI['mixed']): Paint | undefined {
+    return Array.isArray(fills) ? [...fills].reverse().find(isVisiblePaint) : undefined;
+}
+
+/**
+ * テキストの背景色を祖先ノードの塗りから推定する
+ * 最も近い単色の塗りを背景とし、画像やグラデーションの場合は推定しない（重なった兄弟要素は考慮しない）
+ * @param node - テキストノード
+ * @returns 背景色（推定できない場合はundefined）
+ */
+function getBackgroundColor(node: SceneNode): RGB | undefined {
+    let parent = node.parent;
+    while (parent && parent.type !== 'PAGE' && parent.type !== 'DOCUMENT') {
+        const paint = 'fills' in parent ? getTopPaint(parent.fills) : undefined;
+        if (paint) {
+            return paint.type === 'SOLID' ? blendColor(paint.color, paint.opacity ?? 1, DEFAULT_BACKGROUND) : undefined;
+        }
+        parent = parent.parent;
+    }
+    return DEFAULT_BACKGROUND;
+}
+
+/**
+ * テキストと背景のコントラスト比をチェックする
+ * @param node - テキストノード
+ * @returns 基準を下回る場合はコントラスト比と基準
+ */
+function checkContrast(node: TextNode): { ratio: number, required: number } | undefined {
+    const segment = getDominantSegment(node);
+    const paint = getTopPaint(segment.fills);
+    const background = getBackgroundColor(node);
+    if (!paint || paint.type !== 'SOLID' || !background) return undefined;
+
+    const foreground = blendColor(paint.color, (paint.opacity ?? 1) * node.opacity, background);
+    const ratio = getContrastRatio(foreground, background);
+    const isLarge = segment.fontSize >= LARGE_TEXT_SIZE || (segment.fontSize >= LARGE_BOLD_TEXT_SIZE && segment.fontWeight >= 700);
+    const required = isLarge ? CONTRAST_AA_LARGE : CONTRAST_AA;
+
+    return ratio < required ? { ratio, required } : undefined;
+}
+
+/**
+ * SPレイアウト（最も狭いブレークポイント）で要素のサイズを計測する
+ * 計測後はフレームの幅と表示状態を元に戻す
+ * @param frame - 対象のフレーム
+ * @param nodes - 計測するノード
+ * @param breakpoints - ブレークポイント（指定がない場合は現在のレイアウトで計測）
+ * @returns ノードごとのサイズ（非表示のノードは含めない）
+ */
+function measureTapTargets(frame: FrameNode, nodes: SceneNode[], breakpoints?: Breakpoint[]): Map<SceneNode, { width: number, height: number }> {
+    const sizes = new Map<SceneNode, { width: number, height: number }>();
+    const measure = () => nodes
+        .filter(node => node.visible)
+        .forEach(node => sizes.set(node, { width: node.width, height: node.height }));
+
+    if (!breakpoints || breakpoints.length === 0 || nodes.length === 0) {
+        measure();
+        return sizes;
+    }
+
+    const sorted = sortBreakpoints(breakpoints);
+    const state = captureFrameState(frame);
+    try {
+        applyBreakpoint(frame, sorted[sorted.length - 1], sorted);
+        measure();
+    } finally {
+        restoreFrameState(state);
+    }
+    return sizes;
+}
+
+/**
+ * 書き出すマークアップのアクセシビリティをチェックする
+ * - テキストと背景（祖先の単色の塗り）のコントラスト比が WCAG AA を下回るもの
+ * - alt のない img
+ * - 見出しのレベルが飛んでいるもの（h2 の次の h4 など）
+ * - ボタンのような見た目で button/a 以外の要素
+ * - SPレイアウトで44×44px未満の操作できる要素
+ * - header/main/footer のランドマークがないもの
+ * @param frame - 対象のフレーム
+ * @param elements - HTML要素のデータ構造
+ * @param breakpoints - タップ領域を計測するブレークポイント（指定がない場合は現在のレイアウトで計測）
+ * @returns 問題の一覧
+ */
+export function auditAccessibility(frame: FrameNode, elements: ElementData[], breakpoints?: Breakpoint[]): AccessibilityIssue[] {
+    const issues: AccessibilityIssue[] = [];
+    const targets = collectTargets(elements, frame);
+    let previousHeading: { level: number, tag: string } | undefined;
+
+    targets.forEach(({ element, node, path, insideInteractive }) => {
+        if (node.type === 'TEXT' && node.characters.trim() !== '' && element.tag !== 'img' && element.tag !== 'svg') {
+            const contrast = checkContrast(node);
+            if (contrast) {
+                issues.push({
+                    rule: 'contrast',
+                    message: `コントラスト比 ${contrast.ratio.toFixed(2)}:1 が WCAG AA の基準（${contrast.required}:1）を下回っています`,
+                    id: node.id,
+                    path
+                });
+            }
+        }
+
+        if (element.tag === 'img' && !('alt' in (element.attributes || {}))) {
+            issues.push({ rule: 'img-alt', message: 'img に alt がありません', id: node.id, path });
+        }
+
+        const heading = element.tag.match(/^h([1-6])$/);
+        if (heading) {
+            const level = Number(heading[1]);
+            if (previousHeading && level > previousHeading.level + 1) {
+                issues.push({
+                    rule: 'heading-order',
+                    message: `${previousHeading.tag} の次が ${element.tag} で、見出しのレベルが飛んでいます`,
+                    id: node.id,
+                    path
+                });
+            }
+            previousHeading = { level, tag: element.tag };
+        }
+
+        if (!insideInteractive && !isInteractive(element) && isButtonLike(node)) {
+            issues.push({
+                rule: 'clickable',
+                message: `ボタンのような要素が ${element.tag} で出力されています（button または a を使用してください）`,
+                id: node.id,
+                path
+            });
+        }
+    });
+
+    // 操作できる要素のタップ領域
+    const interactive = targets.filter(({ element }) => isInteractive(element));
+    const sizes = measureTapTargets(frame, interactive.map(({ node }) => node), breakpoints);
+    interactive.forEach(({ element, node, path }) => {
+        const size = sizes.get(node);
+        if (size && (size.width < MIN_TAP_TARGET || size.height < MIN_TAP_TARGET)) {
+            issues.push({
+                rule: 'tap-target',
+                message: `${element.tag} のタップ領域が ${Math.round(size.width)}×${Math.round(size.height)}px で、${MIN_TAP_TARGET}×${MIN_TAP_TARGET}px より小さくなっています`,
+                id: node.id,
+                path
+            });
+        }
+    });
+
+    // ランドマーク（フレーム全体）
+    const allElements: ElementData[] = [];
+    const flatten = (element: ElementData) => {
+        allElements.push(element);
+        element.children.forEach(flatten);
+    };
+    elements.forEach(flatten);
+    LANDMARKS
+        .filter(({ tag, role }) => !allElements.some(element => element.tag === tag || element.attributes?.['role'] === role))
+        .forEach(({ tag }) => issues.push({ rule: 'landmark', message: `ランドマーク要素 ${tag} がありません` }));
+
+    return issues;
+}
+
+/**
+ * フレームのアクセシビリティをチェックする（UIのチェック用）
+ * @param frame - 対象のフレーム
+ * @param settings - 書き出しの設定（SPレイアウトの計測にブレークポイントを使用）
+ * @returns 問題の一覧
+ */
+export function auditFrame(frame: FrameNode, settings: ExportSettings): AccessibilityIssue[] {
+    const elements = frame.children.map(child => generateElementData(child, {
+        fallbackImageSrc: settings.fallbackImageSrc,
+        hookClassPrefix: settings.hookClassPrefix
+    }));
+    return auditAccessibility(frame, elements, settings.breakpoints);
+}
+
+/**
+ * アクセシビリティのチェック結果をHTMLのコメントに整形する
+ * @param issues - 問題の一覧
+ * @returns HTMLのコメント（問題がない場合もその旨を出力）
+ */
+export function formatAccessibilityComment(issues: AccessibilityIssue[]): string {
+    const lines = issues.length > 0
+        ? issues.map(issue => `  - [${issue.rule}] ${issue.path ? `${issue.path}: ` : ''}${issue.message}`)
+        : ['  No issues found'];
+    // コメントを閉じる文字列がレイヤー名に含まれていても壊れないようにする
+    const body = [`  Accessibility report (${issues.length})`, ...lines].join('\n').replace(/--!?>/g, '- ->');
+    return `<!--\n${body}\n-->`;
+}
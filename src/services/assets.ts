@@ -0,0 +1,263 @@
+import { ElementData, ExportedFile, ExportFormat, InlineSVGOptions, MarkupOptions } from './types';
+import { DEFAULT_SETTINGS, isHookClass } from './settings';
+
+// 画像の書き出し先ディレクトリ
+const IMAGE_DIRECTORY = 'images';
+
+// レイヤー名で指定できる書き出し形式
+const EXPORT_FORMATS: ExportFormat[] = ['png', 'jpg', 'svg'];
+
+// SVGとして出力するベクターのノードタイプ
+const VECTOR_NODE_TYPES: NodeType[] = ['VECTOR', 'BOOLEAN_OPERATION', 'STAR', 'LINE', 'ELLIPSE', 'POLYGON'];
+
+/**
+ * ノードがSVGとして出力するベクターかどうかを判定する
+ * 画像の塗りを持つ楕円などは画像として扱うため対象外
+ * @param node - Figmaノード
+ * @returns ベクターの場合true
+ */
+export function isVectorNode(node: SceneNode): boolean {
+    return VECTOR_NODE_TYPES.includes(node.type) && !hasImageFill(node);
+}
+
+/**
+ * レイヤー名の属性からインラインSVGのオプション（[currentcolor]）を取り出す
+ * オプションはHTMLに出力しないため属性から削除する
+ * @param attributes - レイヤー名から解析した属性
+ * @returns インラインSVGのオプション
+ */
+export function takeSVGOptions(attributes: Record<string, string>): InlineSVGOptions {
+    const currentColor = 'currentcolor' in attributes;
+    delete attributes['currentcolor'];
+    return { currentColor };
+}
+
+/**
+ * レイヤー名の属性から書き出し指定（[export] / [export=png]）を取り出す
+ * 書き出し指定はHTMLに出力しないため属性から削除する
+ * @param attributes - レイヤー名から解析した属性
+ * @returns 書き出し形式（形式の指定がない場合は空文字、書き出し指定がない場合はundefined）
+ */
+export function takeExportOption(attributes: Record<string, string>): ExportFormat | '' | undefined {
+    if (!('export' in attributes)) return undefined;
+
+    const value = attributes['export'].toLowerCase().replace('jpeg', 'jpg');
+    delete attributes['export'];
+    return EXPORT_FORMATS.includes(value as ExportFormat) ? value as ExportFormat : '';
+}
+
+/**
+ * ノードが画像の塗りを持っているかを判定する
+ * @param node - Figmaノード
+ * @returns 表示中の画像の塗りを持つ場合true
+ */
+export function hasImageFill(node: SceneNode): boolean {
+    return 'fills' in node && Array.isArray(node.fills) &&
+        (node.fills as Paint[]).some(fill => fill.type === 'IMAGE' && fill.visible !== false);
+}
+
+/**
+ * 書き出しファイルのベース名を決定する
+ * クラス名 → alt → レイヤー名 の順で使用し、英数字とハイフンに変換する
+ * @param element - HTML要素のデータ構造
+ * @param hookClassPrefix - JavaScriptのフック用のクラス名の接頭辞
+ * @returns ファイルのベース名
+ */
+function getAssetBaseName(element: ElementData, hookClassPrefix?: string): string {
+    const candidates = [
+        element.classes?.find(cls => !isHookClass(cls, hookClassPrefix)),
+        element.attributes?.['alt'],
+        element._node?.name
+    ];
+    for (const candidate of candidates) {
+        const slug = (candidate || '')
+            .replace(/\[.*?\]/g, '')
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, '-')
+            .replace(/^-+|-+$/g, '');
+        if (slug && slug !== 'img') return slug;
+    }
+    return 'image';
+}
+
+/**
+ * 書き出し対象の要素を収集する
+ * - レイヤー名で [export] が指定された要素
+ * - 画像の塗りを持つ要素（タグによらない。インラインSVGとテキストは除く）
+ * レイヤー名で src を指定した img（代替画像以外の src を持つもの）は、指定した src を使うため対象外
+ * @param elements - HTML要素のデータ構造
+ * @param fallbackImageSrc - src の指定がない img に設定される代替画像のパス
+ * @returns 書き出し対象の要素（ツリーの順）
+ */
+function collectAssetElements(elements: ElementData[], fallbackImageSrc: string): ElementData[] {
+    const result: ElementData[] = [];
+
+    function collect(element: ElementData) {
+        const node = element._node;
+        const src = element.attributes?.['src'];
+        const hasOwnSource = element.tag === 'img' && Boolean(src) && src !== fallbackImageSrc;
+        if (node && !element._svg && node.type !== 'TEXT' && !hasOwnSource && (element._export !== undefined || hasImageFill(node))) {
+            result.push(element);
+        }
+        element.children.forEach(collect);
+    }
+
+    elements.forEach(collect);
+    return result;
+}
+
+/**
+ * 画像のバイト列の先頭から形式（拡張子）を判定する
+ * @param data - 画像のバイト列
+ * @returns 拡張子（判定できない場合は png）
+ */
+function getImageExtension(data: Uint8Array): string {
+    if (data[0] === 0xff && data[1] === 0xd8) return 'jpg';
+    if (data[0] === 0x47 && data[1] === 0x49 && data[2] === 0x46) return 'gif';
+    if (data[0] === 0x52 && data[1] === 0x49 && data[2] === 0x46 && data[3] === 0x46) return 'webp';
+    return 'png';
+}
+
+/**
+ * ノードの画像の塗りの元画像を取得する
+ * 背景画像は子要素を含めずに書き出すため、ノードではなく塗りの画像を使う
+ * @param node - Figmaノード
+ * @returns 元画像のバイト列（取得できない場合はnull）
+ */
+async function getImageFillBytes(node: SceneNode): Promise<Uint8Array | null> {
+    if (!('fills' in node) || !Array.isArray(node.fills)) return null;
+
+    const fill = (node.fills as Paint[])
+        .filter((paint): paint is ImagePaint => paint.type === 'IMAGE' && paint.visible !== false)
+        .pop();
+    const image = fill?.imageHash ? figma.getImageByHash(fill.imageHash) : null;
+    return image ? image.getBytesAsync() : null;
+}
+
+/**
+ * ノードを指定の形式・倍率で書き出す
+ * @param node - Figmaノード
+ * @param format - 書き出し形式
+ * @param scale - 倍率（SVGの場合は無視）
+ * @returns 書き出したバイト列
+ */
+function exportNode(node: SceneNode, format: ExportFormat, scale: number): Promise<Uint8Array> {
+    if (format === 'svg') {
+        return node.exportAsync({ format: 'SVG' });
+    }
+    return node.exportAsync({
+        format: format === 'jpg' ? 'JPG' : 'PNG',
+        constraint: { type: 'SCALE', value: scale }
+    });
+}
+
+/**
+ * 画像の要素を書き出し、img 要素の src / srcset を書き出したファイルに書き換える
+ * - レイヤー名で src を指定した img はそのまま（代替画像の場合のみ書き換える）
+ * - ファイル名はクラス名などから決定し、重複する場合は連番を付与（ツリーの順で決定的）
+ * - PNG/JPG は @2x も書き出して srcset に指定する
+ * - 形式の指定がない場合は画像の塗りなら PNG、それ以外（アイコンなど）は SVG
+ * - img 以外の要素は画像の塗りの元画像を書き出し、背景画像のパスを設定する
+ * @param elements - HTML要素のデータ構造（src / 背景画像が設定される）
+ * @param options - HTML要素のデータ構造の生成のオプション
+ * @returns 書き出したファイル
+ */
+export async function exportImageAssets(elements: ElementData[], options: MarkupOptions = {}): Promise<ExportedFile[]> {
+    const files: ExportedFile[] = [];
+    const usedNames = new Set<string>();
+
+    // ファイル名の重複を避けたベース名を返す
+    function reserveName(element: ElementData): string {
+        const baseName = getAssetBaseName(element, options.hookClassPrefix);
+        let name = baseName;
+        for (let i = 2; usedNames.has(name); i++) {
+            name = `${baseName}-${i}`;
+        }
+        usedNames.add(name);
+        return name;
+    }
+
+    const fallbackImageSrc = options.fallbackImageSrc || DEFAULT_SETTINGS.fallbackImageSrc;
+    for (const element of collectAssetElements(elements, fallbackImageSrc)) {
+        const node = element._node as SceneNode;
+
+        if (element.tag !== 'img') {
+            const data = await getImageFillBytes(node);
+            if (!data) continue;
+
+            const path = `${IMAGE_DIRECTORY}/${reserveName(element)}.${getImageExtension(data)}`;
+            files.push({ path, data });
+            element._background = `./${path}`;
+            continue;
+        }
+
+        const format = element._export || (hasImageFill(node) ? 'png' : 'svg');
+        const name = reserveName(element);
+        const path = `${IMAGE_DIRECTORY}/${name}.${format}`;
+        files.push({ path, data: await exportNode(node, format, 1) });
+
+        const attributes = element.attributes || {};
+        attributes['src'] = `./${path}`;
+
+        if (format !== 'svg') {
+            const retinaPath = `${IMAGE_DIRECTORY}/${name}@2x.${format}`;
+            files.push({ path: retinaPath, data: await exportNode(node, format, 2) });
+            attributes['srcset'] = `./${path} 1x, ./${retinaPath} 2x`;
+        }
+        element.attributes = attributes;
+    }
+
+    return files;
+}
+
+/**
+ * FigmaのSVG文字列を、HTMLに埋め込める形に整形する
+ * - 複数のSVGを埋め込んでも衝突しないよう id を接頭辞付きに変更
+ * - 指定がある場合は塗りと線の色を currentColor に置き換え
+ * クラス名と属性はHTMLの生成時にルートの svg 要素へ追加する
+ * @param svg - FigmaのSVG文字列
+ * @param options - インラインSVGのオプション
+ * @param idPrefix - id の接頭辞
+ * @returns 整形したSVG文字列
+ */
+function formatInlineSVG(svg: string, options: InlineSVGOptions, idPrefix: string): string {
+    const markup = svg
+        .replace(/<\?xml[^>]*>\s*/, '')
+        .replace(/\bid="([^"]+)"/g, `id="${idPrefix}-$1"`)
+        .replace(/url\(#([^)]+)\)/g, `url(#${idPrefix}-$1)`)
+        .replace(/href="#([^"]+)"/g, `href="#${idPrefix}-$1"`)
+        .trim();
+
+    return options.currentColor
+        ? markup.replace(/\b(fill|stroke)="(?!none)[^"]*"/g, '$1="currentColor"')
+        : markup;
+}
+
+/**
+ * インラインSVGの要素をSVGとして書き出し、マークアップを要素に設定する
+ * 代替テキストの指定がない場合は装飾アイコンとして aria-hidden を追加する
+ * @param elements - HTML要素のデータ構造（html が設定される）
+ */
+export async function exportInlineSVGs(elements: ElementData[]): Promise<void> {
+    const targets: ElementData[] = [];
+
+    function collect(element: ElementData) {
+        if (element._svg && element._node) {
+            targets.push(element);
+        }
+        element.children.forEach(collect);
+    }
+    elements.forEach(collect);
+
+    for (const element of targets) {
+        const node = element._node as SceneNode;
+        const svg = await node.exportAsync({ format: 'SVG_STRING' });
+        element.html = formatInlineSVG(svg, element._svg as InlineSVGOptions, `svg-${node.id.replace(/[^a-zA-Z0-9]+/g, '-')}`);
+
+        const attributes = element.attributes || {};
+        if (!('aria-label' in attributes) && !('aria-labelledby' in attributes) && !('role' in attributes)) {
+            attributes['aria-hidden'] = 'true';
+        }
+        element.attributes = attributes;
+    }
+}
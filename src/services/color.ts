@@ -0,0 +1,11 @@
+/**
+ * Figmaの色（0〜1の値）をCSSのrgba()形式に変換する
+ * @param color - FigmaのRGBまたはRGBA
+ * @param opacity - 不透明度（指定がない場合はRGBAのa、RGBの場合は1）
+ * @returns rgba()形式の文字列
+ */
+export function formatRGBA(color: RGB | RGBA, opacity?: number): string {
+    const { r, g, b } = color;
+    const alpha = opacity !== undefined ? opacity : 'a' in color ? color.a : 1;
+    return `rgba(${Math.round(r * 255)}, ${Math.round(g * 255)}, ${Math.round(b * 255)}, ${Math.round(alpha * 100) / 100})`;
+}
@@ -0,0 +1,549 @@
+import { ComponentInfo, ComponentProp, ElementData, ExportedFile, VariantModifier } from './types';
+import { BOOLEAN_ATTRIBUTES, escapeAttribute, escapeHTML, isValidAttributeName, serializeAttributes, toOutputTagName, VOID_ELEMENTS } from './html-serializer';
+import { getVariantModifiers, toPascalCase } from './components';
+import { getIndentUnit } from './settings';
+
+/**
+ * コンポーネントを出力するフレームワーク
+ */
+export type Framework = 'react' | 'vue' | 'astro';
+
+/**
+ * フレームワークごとの構文
+ */
+interface FrameworkSyntax {
+    /** ファイルの拡張子 */
+    extension: string;
+    /** JSX（className・キャメルケースの属性・style オブジェクト）で出力するかどうか */
+    jsx: boolean;
+    /** 子要素のない要素を自己終了タグで出力するかどうか */
+    selfClosing: boolean;
+    /** 表示・非表示の切り替えを属性で指定する場合の属性名（Vueの v-if） */
+    conditionalAttribute?: string;
+    /** マークアップのベースのインデントの段数 */
+    indentDepth: number;
+    /** 式の埋め込み */
+    formatExpression(expression: string): string;
+    /** テキストのエスケープ */
+    formatText(text: string): string;
+    /** 属性への式の埋め込み */
+    formatBinding(name: string, expression: string): string;
+    /** propsに応じてモディファイアを切り替えるクラス名の属性 */
+    formatClassBinding(classes: string[], modifiers: VariantModifier[]): string;
+    /** コンポーネントのファイル */
+    formatFile(file: ComponentFile): string;
+}
+
+/**
+ * 生成するコンポーネントのファイルの内容
+ */
+interface ComponentFile {
+    name: string;
+    props: ComponentProp[];
+    imports: string[];
+    markup: string[];
+    isRoot: boolean;
+    /** インデント1段分 */
+    indentUnit: string;
+}
+
+/**
+ * コンポーネントの生成状況
+ */
+interface ComponentRegistry {
+    syntax: FrameworkSyntax;
+    /** 要素の入れ子のインデント1段分 */
+    indentUnit: string;
+    /** コンポーネントIDごとのコンポーネント名 */
+    names: Map<string, string>;
+    usedNames: Set<string>;
+    files: ExportedFile[];
+}
+
+// JSXで名前が変わる属性
+const JSX_ATTRIBUTE_NAMES: Record<string, string> = {
+    'class': 'className',
+    'for': 'htmlFor',
+    'tabindex': 'tabIndex',
+    'readonly': 'readOnly',
+    'maxlength': 'maxLength',
+    'minlength': 'minLength',
+    'srcset': 'srcSet',
+    'autocomplete': 'autoComplete',
+    'autofocus': 'autoFocus',
+    'autoplay': 'autoPlay',
+    'allowfullscreen': 'allowFullScreen',
+    'colspan': 'colSpan',
+    'rowspan': 'rowSpan',
+    'contenteditable': 'contentEditable',
+    'crossorigin': 'crossOrigin',
+    'datetime': 'dateTime',
+    'enctype': 'encType',
+    'formnovalidate': 'formNoValidate',
+    'inputmode': 'inputMode',
+    'novalidate': 'noValidate',
+    'playsinline': 'playsInline',
+    'referrerpolicy': 'referrerPolicy',
+    'spellcheck': 'spellCheck',
+    'usemap': 'useMap',
+    'viewbox': 'viewBox'
+};
+
+/**
+ * 属性名をJSXの属性名に変換する
+ * data- / aria- 以外のハイフン・コロン区切りはキャメルケースにする（例: stroke-width → strokeWidth）
+ * @param name - HTMLの属性名
+ * @returns JSXの属性名
+ */
+function toJSXAttributeName(name: string): string {
+    const lower = name.toLowerCase();
+    if (lower in JSX_ATTRIBUTE_NAMES) return JSX_ATTRIBUTE_NAMES[lower];
+    if (lower.startsWith('data-') || lower.startsWith('aria-')) return name;
+    return name.replace(/[-:]([a-z])/g, (_match, char: string) => char.toUpperCase());
+}
+
+/**
+ * style 属性の文字列をJSXの style オブジェクトに変換する
+ * 例: "color: red; margin-top: 8px" → "{{ color: 'red', marginTop: '8px' }}"
+ * @param value - style 属性の値
+ * @returns JSXの式
+ */
+function toJSXStyle(value: string): string {
+    const entries = value
+        .split(';')
+        .map(declaration => declaration.trim())
+        .filter(Boolean)
+        .map(declaration => {
+            const index = declaration.indexOf(':');
+            const property = declaration.slice(0, index).trim();
+            const key = property.startsWith('--')
+                ? `'${property}'`
+                : property.replace(/-([a-z])/g, (_match, char: string) => char.toUpperCase());
+            return `${key}: ${toStringLiteral(declaration.slice(index + 1).trim())}`;
+        });
+    return `{{ ${entries.join(', ')} }}`;
+}
+
+/**
+ * 文字列をシングルクォートの文字列リテラルに変換する
+ * @param value - 文字列
+ * @returns 文字列リテラル
+ */
+function toStringLiteral(value: string): string {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, '\\\'')}'`;
+}
+
+/**
+ * propsの値をリテラルに変換する
+ * @param value - propsの値
+ * @returns リテラル
+ */
+function toLiteral(value: string | boolean): string {
+    return typeof value === 'boolean' ? String(value) : toStringLiteral(value);
+}
+
+/**
+ * propsの定義をTypeScriptの型に変換する
+ * @param prop - propsの定義
+ * @returns 型（バリアントの場合は選択肢のユニオン型）
+ */
+function toPropType(prop: ComponentProp): string {
+    if (prop.type === 'BOOLEAN') return 'boolean';
+    if (prop.type === 'VARIANT' && prop.options?.length) return prop.options.map(toStringLiteral).join(' | ');
+    return 'string';
+}
+
+/**
+ * propsの型定義の行を生成する
+ * @param props - propsの定義
+ * @param indent - インデント（スペース）
+ * @returns 型定義の行
+ */
+function formatPropTypes(props: ComponentProp[], indent: string): string[] {
+    return props.map(prop => `${indent}${prop.name}?: ${toPropType(prop)};`);
+}
+
+/**
+ * モディファイアのクラス名を付ける条件の式を生成する
+ * @param modifier - モディファイアのクラス名とバリアントの値
+ * @returns 条件の式（例: "size === 'Large'"）
+ */
+function formatModifierCondition({ prop, value }: VariantModifier): string {
+    return `${prop.name} === ${toStringLiteral(value)}`;
+}
+
+/**
+ * モディファイアのクラス名と条件のオブジェクトを生成する（Vueの :class、Astroの class:list で使用）
+ * @param modifiers - モディファイアのクラス名とバリアントの値
+ * @returns オブジェクトの式（例: "{ 'button--large': size === 'Large' }"）
+ */
+function formatModifierObject(modifiers: VariantModifier[]): string {
+    return `{ ${modifiers.map(modifier => `${toStringLiteral(modifier.className)}: ${formatModifierCondition(modifier)}`).join(', ')} }`;
+}
+
+/**
+ * JSXとAstroのテキストをエスケープする（{ } は式として解釈されるため文字列にする）
+ * @param text - テキスト
+ * @returns エスケープされた文字列
+ */
+function escapeJSXText(text: string): string {
+    return escapeHTML(text).replace(/[{}]/g, char => `{'${char}'}`);
+}
+
+/**
+ * React（TSX）の構文
+ */
+const reactSyntax: FrameworkSyntax = {
+    extension: 'tsx',
+    jsx: true,
+    selfClosing: true,
+    indentDepth: 2,
+    formatExpression: expression => `{${expression}}`,
+    formatText: escapeJSXText,
+    formatBinding: (name, expression) => `${name}={${expression}}`,
+    formatClassBinding(classes, modifiers) {
+        const items = [
+            ...classes.map(toStringLiteral),
+            ...modifiers.map(modifier => `${formatModifierCondition(modifier)} && ${toStringLiteral(modifier.className)}`)
+        ];
+        return `className={[${items.join(', ')}].filter(Boolean).join(' ')}`;
+    },
+    formatFile({ name, props, imports, markup, isRoot, indentUnit }) {
+        const lines = [...imports];
+        if (isRoot) lines.push('import \'./style.scss\';');
+        if (lines.length > 0) lines.push('');
+
+        if (props.length > 0) {
+            lines.push(`type ${name}Props = {`, ...formatPropTypes(props, indentUnit), '};', '');
+        }
+
+        const parameters = props.length > 0
+            ? `{ ${props.map(prop => `${prop.name} = ${toLiteral(prop.defaultValue)}`).join(', ')} }: ${name}Props`
+            : '';
+        const body = markup.length > 1
+            ? [`${indentUnit.repeat(2)}<>`, ...markup.join('\n').split('\n').map(line => `${indentUnit}${line}`), `${indentUnit.repeat(2)}</>`]
+            : markup;
+
+        lines.push(
+            `export default function ${name}(${parameters}) {`,
+            `${indentUnit}return (`,
+            ...body,
+            `${indentUnit});`,
+            '}'
+        );
+        return `${lines.join('\n')}\n`;
+    }
+};
+
+/**
+ * Vue（SFC）の構文
+ */
+const vueSyntax: FrameworkSyntax = {
+    extension: 'vue',
+    jsx: false,
+    selfClosing: false,
+    conditionalAttribute: 'v-if',
+    indentDepth: 1,
+    formatExpression: expression => `{{ ${expression} }}`,
+    formatText: text => escapeHTML(text).replace(/\{\{/g, '&#123;&#123;'),
+    formatBinding: (name, expression) => `:${name}="${escapeAttribute(expression)}"`,
+    formatClassBinding(classes, modifiers) {
+        const binding = `:class="${escapeAttribute(formatModifierObject(modifiers))}"`;
+        return classes.length > 0 ? `class="${escapeAttribute(classes.join(' '))}" ${binding}` : binding;
+    },
+    formatFile({ props, imports, markup, isRoot, indentUnit }) {
+        const script = [...imports];
+        if (props.length > 0) {
+            if (script.length > 0) script.push('');
+            script.push(
+                'withDefaults(defineProps<{',
+                ...formatPropTypes(props, indentUnit),
+                '}>(), {',
+                props.map(prop => `${indentUnit}${prop.name}: ${toLiteral(prop.defaultValue)}`).join(',\n'),
+                '});'
+            );
+        }
+
+        const blocks = [
+            ...(script.length > 0 ? [`<script setup lang="ts">\n${script.join('\n')}\n</script>`] : []),
+            `<template>\n${markup.join('\n')}\n</template>`,
+            ...(isRoot ? ['<style lang="scss" src="./style.scss"></style>'] : [])
+        ];
+        return `${blocks.join('\n\n')}\n`;
+    }
+};
+
+/**
+ * Astroの構文
+ */
+const astroSyntax: FrameworkSyntax = {
+    extension: 'astro',
+    jsx: false,
+    selfClosing: false,
+    indentDepth: 0,
+    formatExpression: expression => `{${expression}}`,
+    formatText: escapeJSXText,
+    formatBinding: (name, expression) => `${name}={${expression}}`,
+    formatClassBinding(classes, modifiers) {
+        return `class:list={[${[...classes.map(toStringLiteral), formatModifierObject(modifiers)].join(', ')}]}`;
+    },
+    formatFile({ props, imports, markup, isRoot, indentUnit }) {
+        const frontmatter = [...imports];
+        if (isRoot) frontmatter.push('import \'./style.scss\';');
+        if (props.length > 0) {
+            if (frontmatter.length > 0) frontmatter.push('');
+            frontmatter.push(
+                'interface Props {',
+                ...formatPropTypes(props, indentUnit),
+                '}',
+                '',
+                `const { ${props.map(prop => `${prop.name} = ${toLiteral(prop.defaultValue)}`).join(', ')} } = Astro.props;`
+            );
+        }
+
+        return frontmatter.length > 0
+            ? `---\n${frontmatter.join('\n')}\n---\n${markup.join('\n')}\n`
+            : `${markup.join('\n')}\n`;
+    }
+};
+
+// フレームワークごとの構文
+const FRAMEWORK_SYNTAX: Record<Framework, FrameworkSyntax> = {
+    react: reactSyntax,
+    vue: vueSyntax,
+    astro: astroSyntax
+};
+
+/**
+ * クラス名と属性をフレームワークの属性文字列に変換する
+ * @param classes - クラス名の配列
+ * @param attributes - 属性のキーと値のペア
+ * @param bindings - 式を埋め込む属性（整形済み）
+ * @param syntax - フレームワークの構文
+ * @returns 先頭にスペースを含む属性文字列（属性がない場合は空文字）
+ */
+function formatAttributes(classes: string[] = [], attributes: Record<string, string> = {}, bindings: string[], syntax: FrameworkSyntax): string {
+    if (!syntax.jsx) {
+        const bound = bindings.length > 0 ? ` ${bindings.join(' ')}` : '';
+        return `${serializeAttributes(classes, attributes)}${bound}`;
+    }
+
+    const parts: string[] = [];
+    if (classes.length > 0) {
+        parts.push(`className="${escapeAttribute(classes.join(' '))}"`);
+    }
+    Object.entries(attributes).filter(([key]) => isValidAttributeName(key)).forEach(([key, value]) => {
+        const name = toJSXAttributeName(key);
+        if (key.toLowerCase() === 'style') {
+            parts.push(`style=${toJSXStyle(value)}`);
+        } else if (value === '' && BOOLEAN_ATTRIBUTES.has(key.toLowerCase())) {
+            parts.push(name);
+        } else {
+            parts.push(`${name}="${escapeAttribute(value)}"`);
+        }
+    });
+    parts.push(...bindings);
+    return parts.length > 0 ? ` ${parts.join(' ')}` : '';
+}
+
+/**
+ * インラインSVGなどのマークアップをフレームワークの構文に変換する
+ * JSXの場合は属性名をJSXの属性名に変換する
+ * @param markup - マークアップ
+ * @param syntax - フレームワークの構文
+ * @returns 変換したマークアップ
+ */
+function convertRawMarkup(markup: string, syntax: FrameworkSyntax): string {
+    if (!syntax.jsx) return markup;
+    return markup.replace(/(<[a-zA-Z][^>]*>)/g, tag =>
+        tag.replace(/\s([a-zA-Z_:][-a-zA-Z0-9_:.]*)=/g, (_match, name: string) => ` ${toJSXAttributeName(name)}=`)
+    );
+}
+
+/**
+ * コンポーネント名を登録し、初めて出現したコンポーネントのファイルを生成する
+ * - 中身はベース（デフォルトのバリアント）から生成する（インスタンスでの上書きやバリアントを含めない）
+ * - ルートのタグ名・属性・クラス名は、インスタンスのレイヤー名で指定したもの（モディファイアを除く）を使用する
+ * @param element - INSTANCE/COMPONENT の要素
+ * @param info - コンポーネント情報
+ * @param registry - コンポーネントの生成状況
+ * @returns コンポーネント名
+ */
+function registerComponent(element: ElementData, info: ComponentInfo, registry: ComponentRegistry): string {
+    const registered = registry.names.get(info.id);
+    if (registered) return registered;
+
+    let name = info.name;
+    for (let i = 2; registry.usedNames.has(name); i++) {
+        name = `${info.name}${i}`;
+    }
+    registry.names.set(info.id, name);
+    registry.usedNames.add(name);
+
+    const root: ElementData = {
+        ...(info.base || element),
+        tag: element.tag,
+        classes: (element.classes || []).filter(cls => !info.modifiers.includes(cls)),
+        attributes: { ...info.base?.attributes, ...element.attributes }
+    };
+    const imports = new Set<string>();
+    const markup = renderElement(root, registry.indentUnit.repeat(registry.syntax.indentDepth), { registry, component: info, imports, isRoot: true });
+    registry.files.push({
+        path: `components/${name}.${registry.syntax.extension}`,
+        data: registry.syntax.formatFile({ name, props: info.props, imports: [...imports].map(child => formatImport(child, './', registry.syntax)), markup: [markup], isRoot: false, indentUnit: registry.indentUnit })
+    });
+    return name;
+}
+
+/**
+ * 子コンポーネントの import 文を生成する
+ * @param name - コンポーネント名
+ * @param directory - コンポーネントのディレクトリ
+ * @param syntax - フレームワークの構文
+ * @returns import 文
+ */
+function formatImport(name: string, directory: string, syntax: FrameworkSyntax): string {
+    const extension = syntax.jsx ? '' : `.${syntax.extension}`;
+    return `import ${name} from '${directory}${name}${extension}';`;
+}
+
+/**
+ * 要素の描画に使用する情報
+ */
+interface RenderContext {
+    registry: ComponentRegistry;
+    /** 描画中のコンポーネント（propsの参照に使用） */
+    component?: ComponentInfo;
+    /** 描画中のファイルで使用した子コンポーネント */
+    imports: Set<string>;
+    /** コンポーネントのルート要素かどうか */
+    isRoot: boolean;
+}
+
+/**
+ * コンポーネントを使用するタグを生成する（デフォルト値と異なるpropsのみ指定）
+ * @param name - コンポーネント名
+ * @param info - コンポーネント情報
+ * @param syntax - フレームワークの構文
+ * @returns コンポーネントのタグ
+ */
+function formatComponentUsage(name: string, info: ComponentInfo, syntax: FrameworkSyntax): string {
+    const attributes = info.props
+        .filter(prop => prop.key in info.values && info.values[prop.key] !== prop.defaultValue)
+        .map(prop => {
+            const value = info.values[prop.key];
+            return typeof value === 'boolean'
+                ? syntax.formatBinding(prop.name, String(value))
+                : `${prop.name}="${escapeAttribute(value)}"`;
+        });
+    return `<${name}${attributes.map(attribute => ` ${attribute}`).join('')} />`;
+}
+
+/**
+ * HTML要素のデータ構造からフレームワークのマークアップを生成する
+ * - INSTANCE/COMPONENT の要素は子コンポーネントとして出力
+ * - コンポーネント内でプロパティに紐づいたテキストは props を参照
+ * - プロパティに紐づいた表示・非表示は条件付きで出力
+ * - コンポーネントのルートのモディファイアのクラス名は、バリアントの props に応じて切り替える
+ * @param element - HTML要素のデータ構造
+ * @param indent - インデント（スペース）
+ * @param context - 描画に使用する情報
+ * @returns 生成されたマークアップ
+ */
+function renderElement(element: ElementData, indent: string, context: RenderContext): string {
+    const { syntax, indentUnit } = context.registry;
+    const { classes, attributes, children, text, inline, html, _node, _component } = element;
+
+    if (element.tag === '#text') {
+        return `${indent}${syntax.formatText(text || '')}`;
+    }
+
+    // タグ名として無効な名前は div として出力
+    const tag = toOutputTagName(element.tag);
+
+    // プロパティへの参照（描画中のコンポーネントのプロパティのみ）
+    const references = context.component && _node && 'componentPropertyReferences' in _node
+        ? _node.componentPropertyReferences
+        : undefined;
+    const findProp = (key?: string) => key ? context.component?.props.find(prop => prop.key === key) : undefined;
+    const textProp = findProp(references?.characters);
+    const visibleProp = findProp(references?.visible);
+    const conditional = visibleProp && syntax.conditionalAttribute
+        ? [`${syntax.conditionalAttribute}="${visibleProp.name}"`]
+        : [];
+
+    let markup: string;
+    if (_component && !context.isRoot) {
+        // 子コンポーネント
+        const name = registerComponent(element, _component, context.registry);
+        context.imports.add(name);
+        const usage = formatComponentUsage(name, _component, syntax);
+        markup = `${indent}${conditional.length > 0 ? usage.replace(' />', ` ${conditional.join(' ')} />`) : usage}`;
+    } else {
+        const bindings = [...conditional];
+        const modifiers = context.isRoot && context.component ? getVariantModifiers(context.component) : [];
+        if (modifiers.length > 0) {
+            bindings.unshift(syntax.formatClassBinding(classes || [], modifiers));
+        }
+        const attributeString = formatAttributes(modifiers.length > 0 ? [] : classes, attributes, bindings, syntax);
+        const childContext = { ...context, isRoot: false };
+
+        if (html !== undefined) {
+            markup = convertRawMarkup(html, syntax)
+                .replace(/^<([a-zA-Z][\w-]*)/, (_match, rootTag) => `<${rootTag}${attributeString}`)
+                .split('\n')
+                .map(line => `${indent}${line}`)
+                .join('\n');
+        } else if (VOID_ELEMENTS.has(tag.toLowerCase())) {
+            markup = `${indent}<${tag}${attributeString}${syntax.selfClosing ? ' />' : '>'}`;
+        } else if (textProp) {
+            markup = `${indent}<${tag}${attributeString}>${syntax.formatExpression(textProp.name)}</${tag}>`;
+        } else if (text) {
+            markup = `${indent}<${tag}${attributeString}>${syntax.formatText(text)}</${tag}>`;
+        } else if (children.length === 0) {
+            markup = syntax.selfClosing
+                ? `${indent}<${tag}${attributeString} />`
+                : `${indent}<${tag}${attributeString}></${tag}>`;
+        } else if (inline) {
+            const content = children.map(child => renderElement(child, '', childContext)).join('');
+            markup = `${indent}<${tag}${attributeString}>${content}</${tag}>`;
+        } else {
+            const content = children.map(child => renderElement(child, `${indent}${indentUnit}`, childContext)).join('\n');
+            markup = `${indent}<${tag}${attributeString}>\n${content}\n${indent}</${tag}>`;
+        }
+    }
+
+    // JSX/Astroでは条件付きの式で囲む
+    if (visibleProp && !syntax.conditionalAttribute) {
+        const nested = markup.split('\n').map(line => `${indentUnit}${line}`).join('\n');
+        return `${indent}{${visibleProp.name} && (\n${nested}\n${indent})}`;
+    }
+    return markup;
+}
+
+/**
+ * フレームの子要素からフレームワークのコンポーネントを生成する
+ * - フレームをルートのコンポーネントとし、スタイルシートを読み込む
+ * - INSTANCE/COMPONENT は components/ 以下の子コンポーネントとして、コンポーネントごとに1ファイル生成
+ * @param frameName - フレーム名（ルートのコンポーネント名に使用）
+ * @param elements - フレームの子要素のHTML要素データ
+ * @param framework - 出力するフレームワーク
+ * @param indentUnit - 要素の入れ子のインデント1段分
+ * @returns ルートのコンポーネントと子コンポーネントのファイル
+ */
+export function generateComponents(frameName: string, elements: ElementData[], framework: Framework, indentUnit = getIndentUnit()): { root: ExportedFile, components: ExportedFile[] } {
+    const syntax = FRAMEWORK_SYNTAX[framework];
+    const name = toPascalCase(frameName) || 'Frame';
+    const registry: ComponentRegistry = { syntax, indentUnit, names: new Map(), usedNames: new Set([name]), files: [] };
+    const imports = new Set<string>();
+
+    const markup = elements.map(element => renderElement(element, indentUnit.repeat(syntax.indentDepth), { registry, imports, isRoot: false }));
+
+    return {
+        root: {
+            path: `${name}.${syntax.extension}`,
+            data: syntax.formatFile({ name, props: [], imports: [...imports].map(child => formatImport(child, './components/', syntax)), markup, isRoot: true, indentUnit })
+        },
+        components: registry.files
+    };
+}
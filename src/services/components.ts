@@ -0,0 +1,252 @@
+import { ComponentInfo, ComponentProp, ComponentState, ElementData, MarkupOptions, VariantModifier } from './types';
+import { generateElementData } from './html-generator';
+import { slugify } from './tokens';
+import { isHookClass } from './settings';
+
+// propsとして出力するコンポーネントプロパティの種類
+const PROP_TYPES: ComponentProp['type'][] = ['TEXT', 'BOOLEAN', 'VARIANT'];
+
+// 状態を表すバリアントの値と擬似クラスの対応
+const STATE_PSEUDO_CLASSES: { pattern: RegExp, pseudo: string }[] = [
+    { pattern: /^hover(ed)?$/i, pseudo: ':hover' },
+    { pattern: /^(pressed|active)$/i, pseudo: ':active' },
+    { pattern: /^focus(ed)?$/i, pseudo: ':focus-visible' }
+];
+
+/**
+ * 名前をキャメルケースに変換する（英数字以外は区切りとして扱う）
+ * 例: "Show icon" → "showIcon"、"card__title--small" → "cardTitleSmall"
+ * @param name - 名前
+ * @returns キャメルケースの名前（数字で始まる場合は先頭に _ を付ける）
+ */
+export function toCamelCase(name: string): string {
+    const camel = name
+        .split(/[^a-zA-Z0-9]+/)
+        .filter(Boolean)
+        .map((word, index) => index === 0
+            ? word.charAt(0).toLowerCase() + word.slice(1)
+            : word.charAt(0).toUpperCase() + word.slice(1))
+        .join('');
+    return /^[0-9]/.test(camel) ? `_${camel}` : camel;
+}
+
+/**
+ * 名前をパスカルケースに変換する
+ * 例: "Button/Primary" → "ButtonPrimary"
+ * @param name - 名前
+ * @returns パスカルケースの名前
+ */
+export function toPascalCase(name: string): string {
+    const camel = toCamelCase(name);
+    return camel.charAt(0).toUpperCase() + camel.slice(1);
+}
+
+/**
+ * コンポーネントプロパティの定義からpropsの定義を生成する
+ * TEXT/BOOLEAN のキーに付く "#12:0" などのIDは名前から除く
+ * @param definitions - コンポーネントプロパティの定義
+ * @returns propsの定義（名前が重複する場合は連番を付与）
+ */
+function createProps(definitions: ComponentPropertyDefinitions): ComponentProp[] {
+    const usedNames = new Set<string>();
+
+    return Object.entries(definitions)
+        .filter(([, definition]) => PROP_TYPES.includes(definition.type as ComponentProp['type']))
+        .map(([key, definition]) => {
+            const baseName = toCamelCase(key.replace(/#[^#]*$/, '')) || 'prop';
+            let name = baseName;
+            for (let i = 2; usedNames.has(name); i++) {
+                name = `${baseName}${i}`;
+            }
+            usedNames.add(name);
+
+            return {
+                key,
+                name,
+                type: definition.type as ComponentProp['type'],
+                defaultValue: definition.defaultValue,
+                options: definition.variantOptions
+            };
+        });
+}
+
+/**
+ * バリアントの値に対応する擬似クラスを取得する
+ * @param value - バリアントの値
+ * @returns 擬似クラス（状態を表す値でない場合はundefined）
+ */
+function getStatePseudoClass(value: string): string | undefined {
+    return STATE_PSEUDO_CLASSES.find(({ pattern }) => pattern.test(value))?.pseudo;
+}
+
+/**
+ * コンポーネントセットから指定したバリアントの値を持つコンポーネントを探す
+ * @param set - コンポーネントセット
+ * @param values - バリアントのプロパティ名と値
+ * @returns 一致するコンポーネント（見つからない場合はundefined）
+ */
+function findVariant(set: ComponentSetNode, values: Record<string, string>): ComponentNode | undefined {
+    return set.children.find((child): child is ComponentNode =>
+        child.type === 'COMPONENT' &&
+        Object.entries(values).every(([key, value]) => child.variantProperties?.[key] === value)
+    );
+}
+
+/**
+ * 状態を表すバリアント（State=Hover など）を、通常の状態のバリアントとの組み合わせで取得する
+ * 状態以外のバリアントの値はメインコンポーネントと同じものを使用する
+ * @param set - コンポーネントセット
+ * @param main - メインコンポーネント
+ * @param props - propsの定義
+ * @param options - HTML要素のデータ構造の生成のオプション
+ * @returns 状態のバリアント
+ */
+function collectStates(set: ComponentSetNode, main: ComponentNode, props: ComponentProp[], options: MarkupOptions): ComponentState[] {
+    const current = main.variantProperties || {};
+    const states: ComponentState[] = [];
+
+    props
+        .filter(prop => prop.type === 'VARIANT' && prop.options?.some(option => getStatePseudoClass(option)))
+        .forEach(prop => {
+            const values = prop.options || [];
+            const restingValue = [current[prop.key], String(prop.defaultValue), ...values]
+                .find(value => value !== undefined && !getStatePseudoClass(value));
+            const resting = restingValue ? findVariant(set, { ...current, [prop.key]: restingValue }) : undefined;
+            if (!resting) return;
+
+            values.forEach(option => {
+                const pseudo = getStatePseudoClass(option);
+                const variant = pseudo ? findVariant(set, { ...current, [prop.key]: option }) : undefined;
+                if (pseudo && variant) {
+                    states.push({ pseudo, modifier: slugify(option), element: generateElementData(variant, options), resting: generateElementData(resting, options) });
+                }
+            });
+        });
+
+    return states;
+}
+
+/**
+ * バリアントの値からモディファイアの名前を生成する
+ * - デフォルト値と同じ場合、状態を表す値（:hover などで表現）の場合は生成しない
+ * - true/false の値はプロパティ名を使用（例: Disabled=true → disabled）
+ * @param prop - propsの定義
+ * @param value - インスタンスのバリアントの値
+ * @returns モディファイアの名前（生成しない場合はundefined）
+ */
+function getModifierName(prop: ComponentProp, value: string | boolean): string | undefined {
+    if (prop.type !== 'VARIANT' || value === prop.defaultValue || typeof value !== 'string') return undefined;
+    if (getStatePseudoClass(value)) return undefined;
+
+    const propName = slugify(prop.key);
+    if (/^true$/i.test(value)) return propName;
+    if (/^false$/i.test(value)) return `no-${propName}`;
+    return slugify(value) || undefined;
+}
+
+/**
+ * INSTANCE/COMPONENT ノードのコンポーネント情報を取得する
+ * - バリアントの場合はコンポーネントセットの名前とプロパティ定義を使用する
+ * - ベースのスタイルはデフォルトのバリアントから生成する
+ * @param node - INSTANCE/COMPONENT ノード
+ * @param options - HTML要素のデータ構造の生成のオプション
+ * @returns コンポーネント情報（メインコンポーネントが見つからない場合はundefined）
+ */
+async function resolveComponentInfo(node: InstanceNode | ComponentNode, options: MarkupOptions): Promise<ComponentInfo | undefined> {
+    const main = node.type === 'INSTANCE' ? await node.getMainComponentAsync() : node;
+    if (!main) return undefined;
+
+    const set = main.parent?.type === 'COMPONENT_SET' ? main.parent : undefined;
+    const source = set || main;
+    const props = createProps(source.componentPropertyDefinitions);
+    const values: Record<string, string | boolean> = {};
+
+    if (node.type === 'INSTANCE') {
+        Object.entries(node.componentProperties).forEach(([key, property]) => {
+            values[key] = property.value;
+        });
+    } else {
+        props.forEach(prop => {
+            values[prop.key] = prop.type === 'VARIANT' && node.variantProperties
+                ? node.variantProperties[prop.key] ?? prop.defaultValue
+                : prop.defaultValue;
+        });
+    }
+
+    return {
+        id: source.id,
+        name: toPascalCase(source.name) || 'Component',
+        props,
+        values,
+        base: generateElementData(set ? set.defaultVariant : main, options),
+        block: '',
+        modifiers: [],
+        states: set ? collectStates(set, main, props, options) : []
+    };
+}
+
+/**
+ * コンポーネントの要素にブロックとモディファイアのクラス名を設定する
+ * - クラス名の指定がない場合はコンポーネント名をブロックのクラス名にする
+ * - デフォルトと異なるバリアントは block--modifier のクラス名にする
+ * @param element - INSTANCE/COMPONENT の要素（classes が設定される）
+ * @param info - コンポーネント情報（modifiers が設定される）
+ * @param hookClassPrefix - JavaScriptのフック用のクラス名の接頭辞
+ */
+function applyComponentClasses(element: ElementData, info: ComponentInfo, hookClassPrefix?: string): void {
+    const classes = element.classes || [];
+    const block = classes.find(cls => !isHookClass(cls, hookClassPrefix)) || slugify(info.name) || 'component';
+
+    info.block = block;
+    info.modifiers = info.props
+        .map(prop => getModifierName(prop, info.values[prop.key]))
+        .filter((name): name is string => Boolean(name))
+        .map(name => `${block}--${name}`)
+        .filter(modifier => !classes.includes(modifier));
+
+    element.classes = [...(classes.includes(block) ? classes : [block, ...classes]), ...info.modifiers];
+}
+
+/**
+ * バリアントの全ての値について、モディファイアのクラス名を取得する
+ * コンポーネントのファイルで、propsに応じてモディファイアのクラス名を切り替えるために使用する
+ * 状態を表す値（State=Hover など）は、擬似クラスと同じスタイルを当てるモディファイアにする
+ * @param info - コンポーネント情報（block が設定済みのもの）
+ * @returns モディファイアのクラス名（デフォルト値は含まない）
+ */
+export function getVariantModifiers(info: ComponentInfo): VariantModifier[] {
+    return info.props.flatMap(prop => (prop.options || []).flatMap(value => {
+        const isState = prop.type === 'VARIANT' && value !== prop.defaultValue && getStatePseudoClass(value);
+        const name = isState ? slugify(value) : getModifierName(prop, value);
+        return name ? [{ prop, value, className: `${info.block}--${name}` }] : [];
+    }));
+}
+
+/**
+ * INSTANCE/COMPONENT ノードの要素にコンポーネント情報とクラス名を設定する
+ * ベース（デフォルトのバリアント）の中の入れ子のインスタンスも、コンポーネントのファイルの生成に使うため設定する
+ * @param elements - HTML要素のデータ構造（_component と classes が設定される）
+ * @param options - HTML要素のデータ構造の生成のオプション（ベースと状態のバリアントの生成に使用）
+ */
+export async function resolveComponents(elements: ElementData[], options: MarkupOptions = {}): Promise<void> {
+    const targets: ElementData[] = [];
+
+    function collect(element: ElementData) {
+        if (element._node?.type === 'INSTANCE' || element._node?.type === 'COMPONENT') {
+            targets.push(element);
+        }
+        element.children.forEach(collect);
+    }
+    elements.forEach(collect);
+
+    // ベースのルートはメインコンポーネント自体のため、子孫だけを追加する
+    for (let i = 0; i < targets.length; i++) {
+        const element = targets[i];
+        const info = await resolveComponentInfo(element._node as InstanceNode | ComponentNode, options);
+        if (info) {
+            element._component = info;
+            applyComponentClasses(element, info, options.hookClassPrefix);
+            info.base?.children.forEach(collect);
+        }
+    }
+}
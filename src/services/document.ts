@@ -0,0 +1,144 @@
+import { Breakpoint, ElementData } from './types';
+import { getTextSegments } from './rich-text';
+import { sortBreakpoints } from './responsive';
+import { escapeAttribute, escapeHTML } from './html-serializer';
+import { getIndentUnit } from './settings';
+
+// リポジトリの reset.css と同じリセットの宣言
+const RESET_DECLARATIONS = ['margin: 0', 'padding: 0', 'box-sizing: border-box'];
+
+// Webフォントの読み込み先（Google Fonts）
+const FONT_ORIGIN = 'https://fonts.googleapis.com';
+const FONT_STATIC_ORIGIN = 'https://fonts.gstatic.com';
+
+/**
+ * HTMLドキュメントの生成のオプション
+ */
+export interface DocumentOptions {
+    /** ドキュメントのタイトル */
+    title: string;
+    /** lang 属性 */
+    lang: string;
+    /** .is_{name} の表示切り替えに使うブレークポイント */
+    breakpoints: Breakpoint[];
+    /** インデントのスペースの数 */
+    indentSize?: number;
+}
+
+/**
+ * 要素のツリーのテキストで使われているフォントファミリーと太さを収集する
+ * 文字範囲ごとのフォントも含める（ベースのスタイルとリッチテキストの差分の両方）
+ * @param elements - HTML要素のデータ構造
+ * @returns フォントファミリーごとの太さ（ツリーの順）
+ */
+export function collectFontFamilies(elements: ElementData[]): Map<string, Set<number>> {
+    const families = new Map<string, Set<number>>();
+    const visited = new Set<SceneNode>();
+
+    function collect(element: ElementData) {
+        const node = element._node;
+        if (node && node.type === 'TEXT' && !visited.has(node)) {
+            visited.add(node);
+            getTextSegments(node).forEach(segment => {
+                const weights = families.get(segment.fontName.family) || new Set<number>();
+                weights.add(segment.fontWeight);
+                families.set(segment.fontName.family, weights);
+            });
+        }
+        element.children.forEach(collect);
+    }
+    elements.forEach(collect);
+
+    return families;
+}
+
+/**
+ * フォントファミリーを読み込む link 要素を生成する
+ * @param family - フォントファミリー
+ * @param weights - 使用している太さ
+ * @returns link 要素
+ */
+function formatFontLink(family: string, weights: Set<number>): string {
+    const sorted = [...weights].sort((a, b) => a - b).join(';');
+    const href = `${FONT_ORIGIN}/css2?family=${encodeURIComponent(family).replace(/%20/g, '+')}:wght@${sorted}&display=swap`;
+    return `<link rel="stylesheet" href="${escapeAttribute(href)}">`;
+}
+
+/**
+ * .is_{name} の要素をブレークポイントごとに表示・非表示にするルールを生成する
+ * 最も広いブレークポイントをベースとし、狭いブレークポイントは @media (max-width) で切り替える
+ * @param breakpoints - ブレークポイント
+ * @param indentUnit - インデント1段分の文字列
+ * @returns 表示切り替えのルール
+ */
+export function generateVisibilityRules(breakpoints: Breakpoint[], indentUnit = getIndentUnit()): string {
+    const sorted = sortBreakpoints(breakpoints);
+    const rules = (visible: Breakpoint, indent: string) => sorted.map(({ name }) => name === visible.name
+        ? `${indent}.is_${name} {\n${indent}${indentUnit}display: block;\n${indent}}`
+        : `${indent}.is_${name} {\n${indent}${indentUnit}display: none !important;\n${indent}}`
+    ).join('\n\n');
+
+    return sorted.map((breakpoint, index) => index === 0
+        ? rules(breakpoint, '')
+        : `@media (max-width: ${breakpoint.width}px) {\n${rules(breakpoint, indentUnit)}\n}`
+    ).join('\n\n');
+}
+
+/**
+ * 文字列の各行をインデントする（空行はインデントしない）
+ * @param text - 文字列
+ * @param indent - インデント
+ * @returns インデントした文字列
+ */
+function indentLines(text: string, indent: string): string {
+    return text.split('\n').map(line => line ? `${indent}${line}` : line).join('\n');
+}
+
+/**
+ * マークアップとCSSから単体で表示できるHTMLドキュメントを生成する
+ * - DOCTYPE、lang 属性、viewport の meta 要素
+ * - 使用しているフォントファミリーの link 要素（Google Fonts）
+ * - リセットと .is_{name} の表示切り替え、書き出したCSSを style 要素に埋め込む
+ * @param markup - body に入れるマークアップ
+ * @param styles - CSS
+ * @param fonts - フォントファミリーごとの太さ
+ * @param options - HTMLドキュメントの生成のオプション
+ * @returns HTMLドキュメント
+ */
+export function generateDocument(markup: string, styles: string, fonts: Map<string, Set<number>>, options: DocumentOptions): string {
+    const indentUnit = getIndentUnit(options.indentSize);
+    const fontLinks = fonts.size > 0
+        ? [
+            `<link rel="preconnect" href="${FONT_ORIGIN}">`,
+            `<link rel="preconnect" href="${FONT_STATIC_ORIGIN}" crossorigin>`,
+            ...[...fonts].map(([family, weights]) => formatFontLink(family, weights))
+        ]
+        : [];
+    const reset = `* {\n${RESET_DECLARATIONS.map(declaration => `${indentUnit}${declaration};`).join('\n')}\n}`;
+    const css = [reset, generateVisibilityRules(options.breakpoints, indentUnit), styles.trim()]
+        .filter(Boolean)
+        .join('\n\n');
+
+    const head = [
+        '<meta charset="UTF-8">',
+        '<meta name="viewport" content="width=device-width, initial-scale=1">',
+        `<title>${escapeHTML(options.title)}</title>`,
+        ...fontLinks,
+        '<style>',
+        indentLines(css, indentUnit),
+        '</style>'
+    ];
+
+    return [
+        '<!DOCTYPE html>',
+        `<html lang="${escapeAttribute(options.lang)}">`,
+        '<head>',
+        indentLines(head.join('\n'), indentUnit),
+        '</head>',
+        '<body>',
+        indentLines(markup, indentUnit),
+        '</body>',
+        '</html>',
+        ''
+    ].join('\n');
+}
@@ -0,0 +1,98 @@
+import { formatRGBA } from './color';
+
+type ShadowEffect = DropShadowEffect | InnerShadowEffect;
+
+/**
+ * 表示中のシャドウエフェクトかどうかを判定する
+ * @param effect - Figmaのエフェクト
+ * @returns 表示中のドロップシャドウ/インナーシャドウの場合true
+ */
+function isVisibleShadow(effect: Effect): effect is ShadowEffect {
+    return effect.visible && (effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW');
+}
+
+/**
+ * ドロップシャドウ/インナーシャドウをCSSのシャドウ値に変換する
+ * @param effect - シャドウのエフェクト
+ * @returns box-shadow の1要素分の値
+ */
+function formatShadowValue(effect: ShadowEffect): string {
+    const inset = effect.type === 'INNER_SHADOW' ? 'inset ' : '';
+    const spread = effect.spread ? ` ${Math.round(effect.spread)}px` : '';
+    return `${inset}${Math.round(effect.offset.x)}px ${Math.round(effect.offset.y)}px ${Math.round(effect.radius)}px${spread} ${formatRGBA(effect.color)}`;
+}
+
+/**
+ * ドロップシャドウをCSSのテキストシャドウ値に変換する（spreadとinsetはtext-shadowにないため出力しない）
+ * @param effect - ドロップシャドウのエフェクト
+ * @returns text-shadow の1要素分の値
+ */
+function formatTextShadowValue(effect: DropShadowEffect): string {
+    return `${Math.round(effect.offset.x)}px ${Math.round(effect.offset.y)}px ${Math.round(effect.radius)}px ${formatRGBA(effect.color)}`;
+}
+
+/**
+ * ぼかしの半径をCSSの blur() に変換する
+ * Figmaの半径はCSSの標準偏差のおよそ2倍にあたるため半分にする
+ * @param radius - Figmaのぼかしの半径
+ * @returns blur()
+ */
+function formatBlur(radius: number): string {
+    return `blur(${Math.round(radius / 2 * 10) / 10}px)`;
+}
+
+/**
+ * 表示中のシャドウエフェクトをまとめて box-shadow の値に変換する
+ * @param effects - Figmaのエフェクト配列
+ * @returns box-shadow の値（シャドウがない場合はundefined）
+ */
+export function formatBoxShadow(effects: readonly Effect[]): string | undefined {
+    const shadows = effects.filter(isVisibleShadow).map(formatShadowValue);
+    return shadows.length > 0 ? shadows.join(', ') : undefined;
+}
+
+/**
+ * 表示中のドロップシャドウをまとめて text-shadow の値に変換する
+ * インナーシャドウはテキストに対応するCSSがないため対象外
+ * @param effects - Figmaのエフェクト配列
+ * @returns text-shadow の値（シャドウがない場合はundefined）
+ */
+function formatTextShadow(effects: readonly Effect[]): string | undefined {
+    const shadows = effects
+        .filter((effect): effect is DropShadowEffect => isVisibleShadow(effect) && effect.type === 'DROP_SHADOW')
+        .map(formatTextShadowValue);
+    return shadows.length > 0 ? shadows.join(', ') : undefined;
+}
+
+/**
+ * エフェクトをCSSのスタイルに変換する
+ * - ドロップシャドウ/インナーシャドウ: box-shadow（テキストの場合は text-shadow）
+ * - レイヤーブラー: filter: blur()（複数ある場合はスペース区切りで1つの宣言）
+ * - 背景のぼかし: backdrop-filter: blur()（同上）
+ * @param effects - Figmaのエフェクト配列
+ * @param isText - テキストノードかどうか
+ * @param shadowToken - シャドウの代わりに参照するSCSS変数（エフェクトスタイルに紐づいている場合）
+ * @returns "property: value" 形式のスタイル配列
+ */
+export function formatEffects(effects: readonly Effect[], isText: boolean, shadowToken?: string): string[] {
+    const styles: string[] = [];
+
+    const shadow = isText ? formatTextShadow(effects) : formatBoxShadow(effects);
+    if (shadow) {
+        styles.push(isText ? `text-shadow: ${shadow}` : `box-shadow: ${shadowToken || shadow}`);
+    }
+
+    // 同じ種類のぼかしが複数ある場合は1つの宣言に関数を並べる（宣言を分けると最後の1つだけが有効になるため）
+    const blurs = effects.filter((effect): effect is BlurEffect => effect.visible && (effect.type === 'LAYER_BLUR' || effect.type === 'BACKGROUND_BLUR'));
+    const layerBlur = blurs.filter(effect => effect.type === 'LAYER_BLUR').map(effect => formatBlur(effect.radius)).join(' ');
+    const backgroundBlur = blurs.filter(effect => effect.type === 'BACKGROUND_BLUR').map(effect => formatBlur(effect.radius)).join(' ');
+    if (layerBlur) {
+        styles.push(`filter: ${layerBlur}`);
+    }
+    if (backgroundBlur) {
+        styles.push(`backdrop-filter: ${backgroundBlur}`);
+        styles.push(`-webkit-backdrop-filter: ${backgroundBlur}`);
+    }
+
+    return styles;
+}
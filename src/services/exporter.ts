@@ -0,0 +1,301 @@
+import { Breakpoint, ExportedFile, ExportSettings, FrameExport, MarkupOptions, SnapshotDocument, StyleOptions, TokenRegistry } from './types';
+import { generateElementData, scopeTopLevelElements } from './html-generator';
+import { collectTokens, createTokenRegistry, generateTokensSCSS, isEmptyTokenRegistry, slugify } from './tokens';
+import { exportImageAssets, exportInlineSVGs } from './assets';
+import { resolveComponents } from './components';
+import { generateDocumentParts, OUTPUT_TARGETS } from './output-targets';
+import { restoreSnapshot, restoreTokenRegistry } from './snapshot';
+import { auditAccessibility, formatAccessibilityComment } from './accessibility';
+import { collectFontFamilies, generateDocument } from './document';
+
+// 複数のフレームで共通のルールをまとめるパーシャル（SCSS）とスタイルシート（CSS）のファイル名
+const COMMON_PARTIAL_NAME = '_common.scss';
+const COMMON_STYLESHEET_NAME = 'common.css';
+
+/**
+ * 一括書き出しの進捗の通知
+ */
+export interface BatchExportCallbacks {
+    /** フレームを1つ書き出すごとに呼ばれる */
+    onProgress(done: number, total: number, name: string): void;
+    /** 中止が要求されている場合にtrueを返す */
+    isCancelled(): boolean;
+}
+
+/**
+ * フレームからマークアップとスタイルを書き出す
+ * @param frame - 書き出すフレーム
+ * @param settings - 書き出しの設定
+ * @param registry - デザイントークンの対応表（一括書き出しでは全フレームで共有する）
+ * @returns 書き出し結果
+ */
+export async function exportFrame(frame: FrameNode, settings: ExportSettings, registry: TokenRegistry = createTokenRegistry()): Promise<FrameExport> {
+    // スタイルやVariableに紐づいた値をデザイントークンとして収集
+    for (const child of frame.children) {
+        await collectTokens(child, registry);
+    }
+    return generateFrameExport(frame, settings, registry, settings.breakpoints);
+}
+
+/**
+ * フレームのスナップショットからマークアップとスタイルを書き出す（Figmaの外で実行できる）
+ * フレームのリサイズによる計測と画像の書き出しはFigmaが必要なため、レスポンシブ出力と画像の書き出しは行わない
+ * @param document - スナップショットのドキュメント
+ * @param settings - 書き出しの設定（指定がない場合はスナップショットの設定）
+ * @returns 書き出し結果
+ */
+export function exportSnapshot(document: SnapshotDocument, settings: ExportSettings = document.settings): Promise<FrameExport> {
+    return generateFrameExport(
+        restoreSnapshot(document),
+        { ...settings, responsive: false, assets: false },
+        restoreTokenRegistry(document)
+    );
+}
+
+/**
+ * 書き出しの設定からスタイル生成のオプションを作成する
+ * @param frame - 書き出すフレーム（vw の基準の幅に使用）
+ * @param settings - 書き出しの設定
+ * @param registry - デザイントークンの対応表
+ * @returns スタイル生成のオプション
+ */
+function createStyleOptions(frame: FrameNode, settings: ExportSettings, registry: TokenRegistry): StyleOptions {
+    const breakpoints = settings.responsive ? settings.breakpoints : undefined;
+    return {
+        tokens: registry,
+        nesting: settings.nesting,
+        layoutGrids: settings.layoutGrids,
+        unit: settings.unit,
+        rootFontSize: settings.rootFontSize,
+        // vw の基準はレスポンシブ出力の場合は最も広いブレークポイントの幅
+        designWidth: breakpoints ? Math.max(...breakpoints.map(({ width }) => width)) : frame.width,
+        fluid: settings.fluid,
+        hookClassPrefix: settings.hookClassPrefix,
+        indentSize: settings.indentSize
+    };
+}
+
+/**
+ * 収集済みのデザイントークンを使ってフレームからマークアップとスタイルを生成する
+ * @param frame - 書き出すフレーム
+ * @param settings - 書き出しの設定
+ * @param registry - デザイントークンの対応表
+ * @param auditBreakpoints - アクセシビリティのチェックでタップ領域を計測するブレークポイント（指定がない場合は現在のレイアウト）
+ * @returns 書き出し結果
+ */
+async function generateFrameExport(frame: FrameNode, settings: ExportSettings, registry: TokenRegistry, auditBreakpoints?: Breakpoint[]): Promise<FrameExport> {
+    const target = OUTPUT_TARGETS[settings.target];
+    const breakpoints = settings.responsive ? settings.breakpoints : undefined;
+    const options = createStyleOptions(frame, settings, registry);
+    const markupOptions: MarkupOptions = {
+        fallbackImageSrc: settings.fallbackImageSrc,
+        hookClassPrefix: settings.hookClassPrefix
+    };
+
+    // 各子要素のElementDataを生成
+    const elements = frame.children.map(child => generateElementData(child, markupOptions));
+
+    // INSTANCE/COMPONENT のコンポーネント名とプロパティを取得
+    await resolveComponents(elements, markupOptions);
+
+    // クラス名のないフレーム直下の要素にフレーム名のクラス名を付ける（子孫のセレクタの起点にする）
+    scopeTopLevelElements(elements, frame.name, settings.hookClassPrefix);
+
+    // ベクターをSVGとして書き出してHTMLに埋め込む
+    await exportInlineSVGs(elements);
+
+    // 画像を書き出して img の src を書き出したファイルに書き換える
+    const assets = settings.assets ? await exportImageAssets(elements, markupOptions) : [];
+
+    // 出力ターゲットでマークアップとスタイルを生成
+    // レスポンシブ出力の場合は各ブレークポイントで計測してメディアクエリを生成
+    const context = { frame, elements, options, breakpoints };
+    const output = target.generate(context);
+
+    // HTMLの場合はアクセシビリティのチェック結果をコメントとして先頭に出力する
+    if (settings.auditComment && output.markupFileName.endsWith('.html')) {
+        const comment = formatAccessibilityComment(auditAccessibility(frame, elements, auditBreakpoints));
+        output.html = `${comment}\n${output.html}`;
+    }
+
+    // SCSSでトークンがある場合は _tokens.scss を出力する
+    const tokens = output.styleFileName.endsWith('.scss') && !isEmptyTokenRegistry(registry)
+        ? generateTokensSCSS(registry, options)
+        : '';
+
+    // 単体で表示できるHTMLドキュメント（HTMLとプレーンなCSS、フォントの読み込みを含む）
+    let document = '';
+    if (settings.standaloneDocument) {
+        const { markup, styles } = generateDocumentParts(context);
+        document = generateDocument(markup, styles, collectFontFamilies(elements), {
+            title: frame.name,
+            lang: settings.lang,
+            breakpoints: settings.breakpoints,
+            indentSize: settings.indentSize
+        });
+    }
+
+    return { ...output, files: output.files || [], tokens, assets, document };
+}
+
+/**
+ * 書き出し結果をZIPにまとめるファイルの一覧に変換する
+ * @param output - 書き出し結果
+ * @param directory - 書き出し先のディレクトリ（例: "top/"）
+ * @returns ファイルの一覧
+ */
+export function collectExportFiles(output: FrameExport, directory = ''): ExportedFile[] {
+    const { html, markupFileName, files, styles, styleFileName, tokens, classMap, assets, document } = output;
+    return [
+        { path: markupFileName, data: html },
+        ...files,
+        ...(styleFileName ? [{ path: styleFileName, data: styles }] : []),
+        ...(tokens ? [{ path: '_tokens.scss', data: tokens }] : []),
+        ...(classMap ? [{ path: 'class-map.json', data: JSON.stringify(classMap, null, 2) }] : []),
+        ...(document ? [{ path: 'standalone.html', data: document }] : []),
+        ...assets
+    ].map(file => ({ ...file, path: `${directory}${file.path}` }));
+}
+
+/**
+ * スタイルシートをトップレベルのルール（セレクタのブロック、@media のブロック、1行の文）に分割する
+ * @param styles - 整形されたスタイルシート
+ * @returns トップレベルのルールの配列
+ */
+function splitTopLevelRules(styles: string): string[] {
+    const rules: string[] = [];
+    let current: string[] = [];
+
+    styles.split('\n').forEach(line => {
+        if (current.length === 0 && line.trim() === '') return;
+        current.push(line);
+        // インデントのない } か ; で終わる行でトップレベルのルールが終わる
+        if (/^[}]/.test(line) || (current.length === 1 && line.trim().endsWith(';'))) {
+            rules.push(current.join('\n'));
+            current = [];
+        }
+    });
+    if (current.length > 0) rules.push(current.join('\n'));
+
+    return rules;
+}
+
+/**
+ * 複数のフレームのスタイルシートで共通のルールを取り出す
+ * - 2つ以上のフレームに全く同じ内容で含まれるセレクタのルールを共通のルールにする
+ * - 共通のルールはフレームのルールより前に読み込まれるため、上書きの順序が変わらないよう、
+ *   含まれる全てのフレームで先頭から共通のルールだけが同じ順序で続く部分のルールに限る
+ * - @media などのアットルールは上書きの順序が変わらないように各フレームに残す
+ * - url() を含むルールはフレームのディレクトリからの相対パスのため各フレームに残す
+ * @param sheets - フレームごとのスタイルシート
+ * @returns 共通のルールと、共通のルールを除いたフレームごとのスタイルシート
+ */
+function extractCommonRules(sheets: string[]): { common: string, sheets: string[] } {
+    const splitSheets = sheets.map(splitTopLevelRules);
+    const counts = new Map<string, number>();
+    splitSheets.forEach(rules => {
+        new Set(rules.filter(rule => !rule.startsWith('@') && !rule.includes('url('))).forEach(rule => counts.set(rule, (counts.get(rule) || 0) + 1));
+    });
+    const candidates = new Set([...counts].filter(([, count]) => count > 1).map(([rule]) => rule));
+
+    // 先頭の部分に含まれないルールや順序の異なるルールを候補から外し、変化がなくなるまで繰り返す
+    let common: string[] = [];
+    let changed = true;
+    while (changed) {
+        changed = false;
+        common = [];
+        splitSheets.forEach(rules => {
+            let isLeading = true;
+            let lastIndex = -1;
+            rules.forEach(rule => {
+                // 読み込みの文はルールの順序に影響しない
+                if (/^@(use|import) /.test(rule)) return;
+                if (!candidates.has(rule)) {
+                    isLeading = false;
+                    return;
+                }
+                if (!common.includes(rule)) common.push(rule);
+                const index = common.indexOf(rule);
+                if (!isLeading || index < lastIndex) {
+                    candidates.delete(rule);
+                    changed = true;
+                    return;
+                }
+                lastIndex = index;
+            });
+        });
+    }
+    const commonSet = new Set(common);
+
+    return {
+        common: common.map(rule => `${rule}\n`).join('\n'),
+        sheets: splitSheets.map(rules => rules.filter(rule => !commonSet.has(rule)).map(rule => `${rule}\n`).join('\n'))
+    };
+}
+
+/**
+ * ページの読み込み文を、サブディレクトリから親ディレクトリのファイルを参照するように書き換える
+ * @param styles - スタイルシート
+ * @returns 書き換えたスタイルシート
+ */
+function resolveSharedImports(styles: string): string {
+    return styles.replace(/^@use '([^']+)'/gm, (_match, name: string) => `@use '../${name}'`);
+}
+
+/**
+ * 複数のフレームをフレームごとのディレクトリに一括で書き出す
+ * - デザイントークンは全フレームで共有し、ルートの _tokens.scss に出力する
+ * - 2つ以上のフレームで共通のルールは _common.scss（CSSの場合は common.css）にまとめる
+ * - フレームごとに中止の要求を確認し、進捗を通知する
+ * @param frames - 書き出すフレーム
+ * @param settings - 書き出しの設定
+ * @param callbacks - 進捗の通知と中止の確認
+ * @returns ZIPにまとめるファイルの一覧（中止された場合はundefined）
+ */
+export async function exportFrames(frames: FrameNode[], settings: ExportSettings, callbacks: BatchExportCallbacks): Promise<ExportedFile[] | undefined> {
+    const registry = createTokenRegistry();
+    const usedDirectories = new Set<string>();
+    const outputs: { directory: string, output: FrameExport }[] = [];
+
+    for (const frame of frames) {
+        // UIからの中止のメッセージを受け取れるように処理を譲る
+        await new Promise(resolve => setTimeout(resolve, 0));
+        if (callbacks.isCancelled()) return undefined;
+
+        const baseName = slugify(frame.name) || 'frame';
+        let directory = baseName;
+        for (let i = 2; usedDirectories.has(directory); i++) {
+            directory = `${baseName}-${i}`;
+        }
+        usedDirectories.add(directory);
+
+        outputs.push({ directory, output: await exportFrame(frame, settings, registry) });
+        callbacks.onProgress(outputs.length, frames.length, frame.name);
+    }
+
+    // 共通のルールを取り出す（CSS Modulesはクラス名がファイルごとにスコープされるため対象外）
+    const styleFileName = outputs[0]?.output.styleFileName || '';
+    const isSCSS = styleFileName === 'style.scss';
+    const canShare = outputs.length > 1 && (isSCSS || styleFileName === 'style.css');
+    const { common, sheets } = canShare
+        ? extractCommonRules(outputs.map(({ output }) => output.styles))
+        : { common: '', sheets: outputs.map(({ output }) => output.styles) };
+
+    const files = outputs.flatMap(({ directory, output }, index) => {
+        let styles = sheets[index];
+        if (common) {
+            styles = isSCSS ? `@use 'common';\n${styles}` : `@import url('../${COMMON_STYLESHEET_NAME}');\n\n${styles}`;
+        }
+        return collectExportFiles({ ...output, styles: resolveSharedImports(styles), tokens: '' }, `${directory}/`);
+    });
+
+    if (common) {
+        const commonStyles = isSCSS && !isEmptyTokenRegistry(registry) ? `@use 'tokens' as *;\n\n${common}` : common;
+        files.push({ path: isSCSS ? COMMON_PARTIAL_NAME : COMMON_STYLESHEET_NAME, data: commonStyles });
+    }
+    // 全フレームで共有するトークンの長さは最初のフレームの設定で単位を変換する
+    if (styleFileName.endsWith('.scss') && !isEmptyTokenRegistry(registry)) {
+        files.push({ path: '_tokens.scss', data: generateTokensSCSS(registry, createStyleOptions(frames[0], settings, registry)) });
+    }
+    return files;
+}
@@ -1,4 +1,46 @@
-export function getTopLevelFrames(): FrameNode[] {
-  return figma.currentPage.children
-    .filter((node): node is FrameNode => node.type === 'FRAME' && node.parent === figma.currentPage);
-} 
\ No newline at end of file
+/**
+ * ノードの中からフレームを集める
+ * セクション・グループは中をたどり、フレームが見つかったらその中はたどらない
+ * @param nodes - 対象のノード
+ * @returns フレームの配列
+ */
+function collectFrames(nodes: readonly SceneNode[]): FrameNode[] {
+  const frames: FrameNode[] = [];
+
+  function collect(node: SceneNode) {
+    if (node.type === 'FRAME') {
+      frames.push(node);
+    } else if (node.type === 'SECTION' || node.type === 'GROUP') {
+      node.children.forEach(collect);
+    }
+  }
+
+  nodes.forEach(collect);
+  return frames;
+}
+
+/**
+ * ページ直下、またはセクション・グループの中にあるフレームを取得する（フレームの中のフレームは含まない）
+ * @param page - 対象のページ
+ * @returns フレームの配列
+ */
+export function getTopLevelFrames(page: PageNode = figma.currentPage): FrameNode[] {
+  return collectFrames(page.children);
+}
+
+/**
+ * ファイル内の全ページのフレームを取得する
+ * @returns フレームの配列
+ */
+export async function getDocumentFrames(): Promise<FrameNode[]> {
+  await figma.loadAllPagesAsync();
+  return figma.root.children.flatMap(page => getTopLevelFrames(page));
+}
+
+/**
+ * 選択中のフレームを取得する（セクション・グループを選択した場合は中のフレーム。フレームの中のフレームは含まない）
+ * @returns フレームの配列
+ */
+export function getSelectedFrames(): FrameNode[] {
+  return [...new Set(collectFrames(figma.currentPage.selection))];
+}
@@ -1,67 +1,15 @@
-import { ElementData, ParsedNodeName } from './types';
+import { ElementData, MarkupOptions, ParsedNodeName } from './types';
+import { generateRichTextData } from './rich-text';
+import { escapeHTML, serializeAttributes, toOutputTagName, VOID_ELEMENTS } from './html-serializer';
+import { isVectorNode, takeExportOption, takeSVGOptions } from './assets';
+import { DEFAULT_SETTINGS, getIndentUnit, isHookClass } from './settings';
+import { isLayerNameSyntax, parseLayerName } from './layer-name';
+import { slugify } from './tokens';
 
 export const isTextNode = (node: SceneNode): node is TextNode => {
     return node.type === 'TEXT';
 };
 
-/**
- * レイヤー名からHTML要素の情報を解析する
- * 例: "div.class1#myId.class2[attr1="value1"]" → { tag: "div", classes: ["class1", "class2"], attributes: { id: "myId", attr1: "value1" } }
- * @param name レイヤー名
- * @returns 解析されたHTML要素の情報
- */
-function parseNodeName(name: string): ParsedNodeName {
-    const result: ParsedNodeName = {
-        tag: 'div', // デフォルト値
-        classes: [],
-        attributes: {}
-    };
-
-    // 属性の抽出（複数の[]に対応）
-    let cleanName = name;
-    const attributeMatches = name.match(/\[(.*?)\]/g);
-    if (attributeMatches) {
-        attributeMatches.forEach(match => {
-            const attributesStr = match.slice(1, -1); // []を除去
-            const attributes = attributesStr.match(/([^=]+)="([^"]+)"/g);
-            if (attributes) {
-                attributes.forEach(attr => {
-                    const [key, value] = attr.split('=');
-                    // 属性名はそのまま使用（正規化しない）
-                    result.attributes[key] = value.replace(/"/g, '');
-                });
-            }
-            // 属性部分を除去してクラス名の解析に備える
-            cleanName = cleanName.replace(match, '');
-        });
-    }
-
-    // タグ名、ID、クラス名抽出（例: "div#myId.class1.class2"）
-    const parts = cleanName.split(/[.#]/);
-    if (parts.length > 0) {
-        // 最初の部分がタグ名（空の場合はdivのまま）
-        if (parts[0]) {
-            result.tag = parts[0];
-        }
-
-        // ID とクラス名を抽出
-        if (parts.length > 1) {
-            const idAndClasses = cleanName.slice(parts[0].length).split('.');
-            idAndClasses.forEach(part => {
-                if (part.startsWith('#')) {
-                    // IDの設定
-                    result.attributes['id'] = part.slice(1);
-                } else if (part) {
-                    // クラス名の追加
-                    result.classes.push(part);
-                }
-            });
-        }
-    }
-
-    return result;
-}
-
 /**
  * Figmaのノードタイプに基づいてHTML要素の情報を取得する
  * @param node Figmaのノード
@@ -73,8 +21,13 @@ function getNodeInfo(node: SceneNode): ParsedNodeName {
     // デフォルトのタグ名を設定
     let defaultTag = 'div';
 
-    // 名前からタグ名、クラス名、属性を抽出
-    const parsed = parseNodeName(node.name);
+    // 記法で書かれていない名前（"Frame 12"、"hero-image" など）はデフォルトのタグとして扱う
+    if (!isLayerNameSyntax(node.name)) {
+        return { tag: defaultTag, classes: [], attributes };
+    }
+
+    // 名前からタグ名、クラス名、属性を抽出（記法のエラーはレイヤー名のチェックで報告する）
+    const parsed = parseLayerName(node.name);
 
     return {
         tag: parsed.tag || defaultTag,
@@ -86,35 +39,62 @@ function getNodeInfo(node: SceneNode): ParsedNodeName {
 /**
  * FigmaのノードからHTML要素のデータ構造を生成する
  * @param node Figmaのノード
+ * @param options HTML要素のデータ構造の生成のオプション
  * @returns HTML要素のデータ構造
  */
-export function generateElementData(node: SceneNode): ElementData {    
+export function generateElementData(node: SceneNode, options: MarkupOptions = {}): ElementData {
     const nodeInfo = getNodeInfo(node);
+    const exportFormat = takeExportOption(nodeInfo.attributes);
     const children: ElementData[] = [];
 
     // 子要素の処理
     if ('children' in node && Array.isArray(node.children)) {
         for (const child of node.children) {
-            children.push(generateElementData(child));
+            children.push(generateElementData(child, options));
         }
     }
 
+    // ベクターと svg という名前のレイヤーはインラインSVGとして出力（[export] 指定時は画像ファイル）
+    if ((isVectorNode(node) || nodeInfo.tag === 'svg') && exportFormat === undefined) {
+        const svgOptions = takeSVGOptions(nodeInfo.attributes);
+        return {
+            tag: 'svg',
+            classes: nodeInfo.classes,
+            attributes: nodeInfo.attributes,
+            children: [],
+            _node: node,
+            _svg: svgOptions
+        };
+    }
+
     // テキストノードの場合はテキストコンテンツを追加
+    // スタイルの異なる文字範囲・改行・リストを含む場合は子要素として展開する
     let text: string | undefined;
     if (isTextNode(node)) {
+        const richText = nodeInfo.tag !== 'img' && exportFormat === undefined ? generateRichTextData(node, nodeInfo.tag, nodeInfo.classes, options.hookClassPrefix) : undefined;
+        if (richText) {
+            return {
+                tag: richText.tag,
+                classes: nodeInfo.classes,
+                attributes: nodeInfo.attributes,
+                children: richText.children,
+                inline: richText.inline,
+                _node: node
+            };
+        }
         text = node.characters;
     }
 
-    // img要素の場合は特別な処理
-    if (nodeInfo.tag === 'img') {
+    // img要素、または [export] で画像として書き出す要素の場合は特別な処理
+    if (nodeInfo.tag === 'img' || exportFormat !== undefined) {
         const imgAttributes: Record<string, string> = {
-            src: nodeInfo.attributes && nodeInfo.attributes['src'] ? nodeInfo.attributes['src'] : './images/dummy.jpg',
+            src: nodeInfo.attributes && nodeInfo.attributes['src'] ? nodeInfo.attributes['src'] : options.fallbackImageSrc || DEFAULT_SETTINGS.fallbackImageSrc,
             width: Math.round(node.width).toString(),
             height: Math.round(node.height).toString()
         };
 
-        // alt属性が存在する場合のみ追加
-        if (nodeInfo.attributes && nodeInfo.attributes['alt']) {
+        // alt属性が存在する場合のみ追加（装飾画像の alt="" も保持する）
+        if (nodeInfo.attributes && 'alt' in nodeInfo.attributes) {
             imgAttributes['alt'] = nodeInfo.attributes['alt'];
         }
 
@@ -123,7 +103,8 @@ export function generateElementData(node: SceneNode): ElementData {
             classes: nodeInfo.classes,
             attributes: imgAttributes,
             children: [],
-            _node: node
+            _node: node,
+            _export: exportFormat
         };
     }
 
@@ -137,36 +118,67 @@ export function generateElementData(node: SceneNode): ElementData {
     };
 }
 
+/**
+ * クラス名のないフレーム直下の要素に、フレーム名をブロックとしたクラス名を付ける
+ * クラス名のない子孫のセレクタ（例: ".top-page__div > p"）がページ全体の要素に当たらないようにする
+ * 例: フレーム "Top Page" 直下の div → "top-page__div"、2つ目の div → "top-page__div-2"
+ * @param elements - フレーム直下の要素のデータ構造（classes が設定される）
+ * @param frameName - フレーム名
+ * @param hookClassPrefix - JavaScriptのフック用のクラス名の接頭辞
+ */
+export function scopeTopLevelElements(elements: ElementData[], frameName: string, hookClassPrefix?: string): void {
+    const slug = slugify(frameName);
+    const block = /^[a-z]/.test(slug) ? slug : `frame${slug ? `-${slug}` : ''}`;
+    const used = new Map<string, number>();
+
+    elements.forEach(element => {
+        if ((element.classes || []).some(cls => !isHookClass(cls, hookClassPrefix))) return;
+
+        const tag = toOutputTagName(element.tag);
+        const count = (used.get(tag) || 0) + 1;
+        used.set(tag, count);
+        element.classes = [`${block}__${count > 1 ? `${tag}-${count}` : tag}`, ...(element.classes || [])];
+    });
+}
+
 /**
  * HTML要素のデータ構造から実際のHTML文字列を生成する
  * @param elementData HTML要素のデータ構造
  * @param indent インデントレベル（スペース）
+ * @param indentUnit インデント1段分のスペース
  * @returns 整形されたHTML文字列
  */
-export function generateHTML(elementData: ElementData, indent = ''): string {
-    const { tag, classes, attributes, children, text } = elementData;
+export function generateHTML(elementData: ElementData, indent = '', indentUnit = getIndentUnit()): string {
+    const { classes, attributes, children, text, inline, html } = elementData;
+
+    // リッチテキストのタグなしのテキスト
+    if (elementData.tag === '#text') {
+        return `${indent}${escapeHTML(text || '')}`;
+    }
 
-    // クラスとアトリビュートの文字列生成
-    const classStr = classes && classes.length > 0
-        ? ` class="${classes.join(' ')}"`
-        : '';
+    // インラインSVGなど、そのまま出力するマークアップ（クラス名と属性はルート要素に追加）
+    if (html !== undefined) {
+        return html
+            .replace(/^<([a-zA-Z][\w-]*)/, (_match, rootTag) => `<${rootTag}${serializeAttributes(classes, attributes)}`)
+            .split('\n')
+            .map(line => `${indent}${line}`)
+            .join('\n');
+    }
 
-    const attrStr = attributes && Object.keys(attributes).length > 0
-        ? ' ' + Object.entries(attributes)
-            .map(([key, value]) => `${key}="${value}"`)
-            .join(' ')
-        : '';
+    // タグ名として無効な名前（"Rectangle 1" など）は div として出力
+    const tag = toOutputTagName(elementData.tag);
 
-    const openTag = `<${tag}${classStr}${attrStr}>`;
+    // クラスとアトリビュートをエスケープして属性文字列を生成
+    const openTag = `<${tag}${serializeAttributes(classes, attributes)}>`;
 
-    // input要素とimg要素は自己終了タグとして扱う
-    if (tag === 'input' || tag === 'img') {
-        return `${indent}<${tag}${classStr}${attrStr}>`;
+    // 空要素（img, input, br など）は終了タグなしで出力
+    if (VOID_ELEMENTS.has(tag.toLowerCase())) {
+        return `${indent}${openTag}`;
     }
 
     // テキストコンテンツを持つ要素の処理
     if (text) {
-        return `${indent}${openTag}${text}</${tag}>`;
+        return `${indent}${openTag}${escapeHTML(text)}</${tag}>`;
     }
 
     // 子要素を持たない要素の処理
@@ -174,10 +186,15 @@ export function generateHTML(elementData: ElementData, indent = ''): string {
         return `${indent}${openTag}</${tag}>`;
     }
 
+    // インラインの子要素（リッチテキスト）は改行せずに出力
+    if (inline) {
+        return `${indent}${openTag}${children.map(child => generateHTML(child, '', indentUnit)).join('')}</${tag}>`;
+    }
+
     // 子要素を持つ要素の処理
     const childrenHTML = children
-        .map(child => generateHTML(child, indent + '  '))
+        .map(child => generateHTML(child, indent + indentUnit, indentUnit))
         .join('\n');
 
     return `${indent}${openTag}\n${childrenHTML}\n${indent}</${tag}>`;
-} 
\ No newline at end of file
+}
@@ -0,0 +1,130 @@
+/**
+ * 終了タグを持たないHTMLの空要素
+ */
+export const VOID_ELEMENTS = new Set([
+    'area',
+    'base',
+    'br',
+    'col',
+    'embed',
+    'hr',
+    'img',
+    'input',
+    'link',
+    'meta',
+    'param',
+    'source',
+    'track',
+    'wbr'
+]);
+
+/**
+ * 値を持たずに属性名だけで出力するHTMLのブール属性
+ */
+export const BOOLEAN_ATTRIBUTES = new Set([
+    'allowfullscreen',
+    'async',
+    'autofocus',
+    'autoplay',
+    'checked',
+    'controls',
+    'default',
+    'defer',
+    'disabled',
+    'formnovalidate',
+    'hidden',
+    'inert',
+    'ismap',
+    'itemscope',
+    'loop',
+    'multiple',
+    'muted',
+    'nomodule',
+    'novalidate',
+    'open',
+    'playsinline',
+    'readonly',
+    'required',
+    'reversed',
+    'selected'
+]);
+
+// HTMLのタグ名として出力できる文字列（ハイフンを含むカスタム要素も含む）
+const TAG_NAME_PATTERN = /^[a-zA-Z][a-zA-Z0-9-]*$/;
+
+// HTMLの属性名として出力できる文字列（空白・引用符・<>/= を含まない）
+const ATTRIBUTE_NAME_PATTERN = /^[^\s"'<>/=]+$/;
+
+/**
+ * HTMLのタグ名として出力できるかどうかを判定する
+ * @param tag - タグ名
+ * @returns タグ名として有効な場合はtrue
+ */
+export function isValidTagName(tag: string): boolean {
+    return TAG_NAME_PATTERN.test(tag);
+}
+
+/**
+ * HTMLの属性名として出力できるかどうかを判定する
+ * @param name - 属性名
+ * @returns 属性名として有効な場合はtrue
+ */
+export function isValidAttributeName(name: string): boolean {
+    return ATTRIBUTE_NAME_PATTERN.test(name);
+}
+
+/**
+ * 出力するタグ名を取得する（タグ名として無効な場合は div）
+ * 例: "Rectangle 1" → "div"
+ * @param tag - タグ名
+ * @returns 出力するタグ名
+ */
+export function toOutputTagName(tag: string): string {
+    return isValidTagName(tag) ? tag : 'div';
+}
+
+/**
+ * テキストコンテンツをHTMLとして安全な文字列にエスケープする
+ * @param text - テキスト
+ * @returns エスケープされた文字列
+ */
+export function escapeHTML(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+}
+
+/**
+ * ダブルクォートで囲む属性値をエスケープする
+ * @param value - 属性値
+ * @returns エスケープされた文字列
+ */
+export function escapeAttribute(value: string): string {
+    return escapeHTML(value).replace(/"/g, '&quot;');
+}
+
+/**
+ * クラス名と属性をHTMLの属性文字列に変換する
+ * - ブール属性で値が空の場合は属性名のみ出力（例: disabled）
+ * - それ以外はダブルクォートで囲んでエスケープ（例: alt=""）
+ * - 属性名として無効な属性は出力しない
+ * @param classes - クラス名の配列
+ * @param attributes - 属性のキーと値のペア
+ * @returns 先頭にスペースを含む属性文字列（属性がない場合は空文字）
+ */
+export function serializeAttributes(classes: string[] = [], attributes: Record<string, string> = {}): string {
+    const parts: string[] = [];
+
+    if (classes.length > 0) {
+        parts.push(`class="${escapeAttribute(classes.join(' '))}"`);
+    }
+
+    Object.entries(attributes).filter(([key]) => isValidAttributeName(key)).forEach(([key, value]) => {
+        parts.push(value === '' && BOOLEAN_ATTRIBUTES.has(key.toLowerCase())
+            ? key
+            : `${key}="${escapeAttribute(value)}"`);
+    });
+
+    return parts.length > 0 ? ` ${parts.join(' ')}` : '';
+}
@@ -0,0 +1,204 @@
+import { LayerNameError, LayerNameParseResult } from './types';
+import { isValidAttributeName, isValidTagName } from './html-serializer';
+
+// レイヤー名の記法のタグとして扱うHTML要素（HTML Living Standard の要素と、埋め込みの svg / math）
+// ハイフンを含むカスタム要素も使用できる
+export const HTML_TAGS = new Set([
+    'a', 'abbr', 'address', 'area', 'article', 'aside', 'audio', 'b', 'base', 'bdi', 'bdo', 'blockquote', 'body',
+    'br', 'button', 'canvas', 'caption', 'cite', 'code', 'col', 'colgroup', 'data', 'datalist', 'dd', 'del',
+    'details', 'dfn', 'dialog', 'div', 'dl', 'dt', 'em', 'embed', 'fieldset', 'figcaption', 'figure', 'footer',
+    'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'head', 'header', 'hgroup', 'hr', 'html', 'i', 'iframe', 'img',
+    'input', 'ins', 'kbd', 'label', 'legend', 'li', 'link', 'main', 'map', 'mark', 'math', 'menu', 'meta', 'meter',
+    'nav', 'noscript', 'object', 'ol', 'optgroup', 'option', 'output', 'p', 'picture', 'pre', 'progress', 'q',
+    'rp', 'rt', 'ruby', 's', 'samp', 'script', 'search', 'section', 'select', 'slot', 'small', 'source', 'span',
+    'strong', 'style', 'sub', 'summary', 'sup', 'svg', 'table', 'tbody', 'td', 'template', 'textarea', 'tfoot',
+    'th', 'thead', 'time', 'title', 'tr', 'track', 'u', 'ul', 'var', 'video', 'wbr'
+]);
+
+// クラス名として有効な文字列
+const CLASS_NAME_PATTERN = /^-?[_a-zA-Z][_a-zA-Z0-9-]*$/;
+
+/**
+ * レイヤー名がレイヤー名の記法（タグ名・.class・#id・[attr]）で書かれているかを判定する
+ * - . # [ で始まる名前、またはタグ名の後に . # [ の指定が続く名前
+ * - HTMLのタグ名だけの名前（ハイフンを含む名前は "product-card" のような名前と区別できないため、カスタム要素は . # [ の指定が必要）
+ * 例: "section.hero"、".card"、"img[src=...]"、"nav"、"product-card.card" → true、"Frame 12"、"Hero"、"hero-image" → false
+ * @param name - レイヤー名
+ * @returns レイヤー名の記法の場合true
+ */
+export function isLayerNameSyntax(name: string): boolean {
+    const source = name.trim();
+    if (/^[.#[]/.test(source)) return true;
+
+    const tag = source.match(/^[a-z][a-z0-9]*(?:-[a-z0-9]+)*/i)?.[0];
+    if (!tag) return false;
+    return /^[.#[]/.test(source.slice(tag.length)) || (source === tag && HTML_TAGS.has(tag));
+}
+
+/**
+ * 解析中のエラーの報告先（位置はトリムしたレイヤー名での位置）
+ * @param message - エラーの内容
+ * @param start - 開始位置
+ * @param end - 終了位置
+ * @param fix - 修正する場合の置き換え（指定した範囲を置き換える文字列と範囲）
+ */
+type ReportError = (message: string, start: number, end: number, fix?: { start: number, end: number, text: string }) => void;
+
+/**
+ * レイヤー名の [] 内の属性を解析する
+ * - 値あり: [href="https://example.com/?a=1"] / [type='text'] / [type=text]
+ * - 値なし（ブール属性）: [disabled]
+ * - 複数指定: [type="checkbox" checked]
+ * 属性名として無効な属性はエラーとして報告し、属性には追加しない
+ * @param name - レイヤー名
+ * @param start - [ の次の位置
+ * @param attributes - 解析した属性の追加先
+ * @param report - エラーの報告先
+ * @returns ] の次の位置
+ */
+function parseAttributes(name: string, start: number, attributes: Record<string, string>, report: ReportError): number {
+    let index = start;
+
+    while (index < name.length && name[index] !== ']') {
+        // 空白を読み飛ばす
+        if (/\s/.test(name[index])) {
+            index++;
+            continue;
+        }
+
+        // 属性名
+        const keyStart = index;
+        while (index < name.length && !/[\s=\]]/.test(name[index])) {
+            index++;
+        }
+        const key = name.slice(keyStart, index);
+        if (!key) {
+            report('属性名がありません', keyStart, keyStart + 1);
+        } else if (!isValidAttributeName(key)) {
+            report(`属性名 "${key}" に使用できない文字が含まれています`, keyStart, index);
+        }
+
+        // 属性値（引用符で囲まれている場合は閉じ引用符まで）
+        let value = '';
+        if (name[index] === '=') {
+            index++;
+            const quote = name[index];
+            if (quote === '"' || quote === "'") {
+                const end = name.indexOf(quote, index + 1);
+                const valueEnd = end === -1 ? name.length : end;
+                value = name.slice(index + 1, valueEnd);
+                if (end === -1) {
+                    report('属性値の引用符が閉じられていません', index, name.length, { start: name.length, end: name.length, text: `${quote}]` });
+                    if (isValidAttributeName(key)) attributes[key] = value;
+                    return name.length + 1;
+                }
+                index = valueEnd + 1;
+            } else {
+                const valueStart = index;
+                while (index < name.length && !/[\s\]]/.test(name[index])) {
+                    index++;
+                }
+                value = name.slice(valueStart, index);
+            }
+        }
+
+        if (isValidAttributeName(key)) {
+            // 属性名はそのまま使用（正規化しない）
+            attributes[key] = value;
+        }
+    }
+
+    if (index >= name.length) {
+        report('[ が閉じられていません', start - 1, name.length, { start: name.length, end: name.length, text: ']' });
+    }
+
+    return index + 1;
+}
+
+/**
+ * レイヤー名の記法（tag.class#id[attr="value"]）を解析する
+ * - 不正な記述は読み飛ばして解析を続け、位置付きのエラーとして返す
+ * - 簡単に直せるエラー（空のクラス名・閉じられていない [ や引用符・大文字のタグ名）には修正後のレイヤー名を付ける
+ * - タグ名として無効な場合は div、属性名として無効な属性は含めない（マークアップにそのまま出力されないようにする）
+ * 例: "div.class1#myId.class2[attr1="value1"][disabled]" → { tag: "div", classes: ["class1", "class2"], attributes: { id: "myId", attr1: "value1", disabled: "" }, errors: [] }
+ * @param name - レイヤー名
+ * @returns 解析されたHTML要素の情報と、レイヤー名での位置付きのエラー
+ */
+export function parseLayerName(name: string): LayerNameParseResult {
+    const result: LayerNameParseResult = {
+        tag: 'div', // デフォルト値
+        classes: [],
+        attributes: {},
+        errors: []
+    };
+
+    const offset = name.length - name.trimStart().length;
+    const source = name.trim();
+    let index = 0;
+
+    const report: ReportError = (message, start, end, fix) => {
+        const error: LayerNameError = { message, start: offset + start, end: offset + end };
+        if (fix) {
+            error.fix = name.slice(0, offset + fix.start) + fix.text + name.slice(offset + fix.end);
+        }
+        result.errors.push(error);
+    };
+
+    // 区切り文字（. # [）までの文字列を読み取る
+    const readName = () => {
+        const start = index;
+        while (index < source.length && !/[.#[]/.test(source[index])) {
+            index++;
+        }
+        return source.slice(start, index).trim();
+    };
+
+    // 最初の部分がタグ名（空の場合と、タグ名として無効な場合はdivのまま）
+    const tag = readName();
+    if (tag) {
+        if (!isValidTagName(tag)) {
+            report(`タグ名 "${tag}" に使用できない文字が含まれています`, 0, index);
+        } else {
+            result.tag = tag;
+            if (HTML_TAGS.has(tag.toLowerCase()) && tag !== tag.toLowerCase()) {
+                report(`タグ名 "${tag}" は小文字で記述してください`, 0, tag.length, { start: 0, end: tag.length, text: tag.toLowerCase() });
+            } else if (!HTML_TAGS.has(tag) && !tag.includes('-')) {
+                report(`不明なタグ名 "${tag}" です`, 0, tag.length);
+            }
+        }
+    }
+
+    // ID、クラス名、属性を抽出（属性値の中の . や # は区切りとして扱わない）
+    while (index < source.length) {
+        const delimiterIndex = index;
+        const delimiter = source[index++];
+        if (delimiter === '[') {
+            index = parseAttributes(source, index, result.attributes, report);
+        } else if (delimiter === '#') {
+            const id = readName();
+            if (!id) {
+                report('# の後にIDがありません', delimiterIndex, delimiterIndex + 1, { start: delimiterIndex, end: delimiterIndex + 1, text: '' });
+            } else {
+                if (/\s/.test(id)) {
+                    report(`ID "${id}" に空白が含まれています`, delimiterIndex + 1, index);
+                }
+                if ('id' in result.attributes) {
+                    report(`IDが複数指定されています（"${result.attributes['id']}" と "${id}"）`, delimiterIndex, index);
+                }
+                result.attributes['id'] = id;
+            }
+        } else {
+            const className = readName();
+            if (!className) {
+                report('. の後にクラス名がありません', delimiterIndex, delimiterIndex + 1, { start: delimiterIndex, end: delimiterIndex + 1, text: '' });
+            } else {
+                if (!CLASS_NAME_PATTERN.test(className)) {
+                    report(`クラス名 "${className}" に使用できない文字が含まれています`, delimiterIndex + 1, index);
+                }
+                result.classes.push(className);
+            }
+        }
+    }
+
+    return result;
+}
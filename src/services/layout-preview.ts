@@ -0,0 +1,122 @@
+import { Breakpoint } from './types';
+import { applyBreakpoint, captureFrameState, restoreFrameState, sortBreakpoints } from './responsive';
+
+// プレビュー前のフレームの状態の保存に使うキー（setPluginData）
+const PREVIEW_STATE_KEY = 'layout-preview-state';
+
+// プレビュー用の複製に元のフレームのIDを保存するキー（setPluginData）
+const PREVIEW_SOURCE_KEY = 'layout-preview-source';
+
+// 横並びの複製の間隔（px）
+const DUPLICATE_GAP = 80;
+
+/**
+ * プラグインデータに保存するフレームの状態
+ */
+interface SavedFrameState {
+    width: number;
+    height: number;
+    primaryAxisSizingMode: FrameNode['primaryAxisSizingMode'];
+    counterAxisSizingMode: FrameNode['counterAxisSizingMode'];
+    /** ノードのIDごとの表示状態 */
+    visibility: Record<string, boolean>;
+}
+
+/**
+ * 名前からブレークポイントを探す
+ * pc/sp が見つからない場合は最も広い/狭いブレークポイントを使う
+ * @param breakpoints - ブレークポイントの配列
+ * @param name - ブレークポイント名
+ * @returns ブレークポイント（見つからない場合はundefined）
+ */
+export function findBreakpoint(breakpoints: Breakpoint[], name: string): Breakpoint | undefined {
+    const found = breakpoints.find(breakpoint => breakpoint.name === name);
+    if (found || breakpoints.length === 0) return found;
+
+    const sorted = sortBreakpoints(breakpoints);
+    if (name === 'pc') return sorted[0];
+    if (name === 'sp') return sorted[sorted.length - 1];
+    return undefined;
+}
+
+/**
+ * プレビュー前のフレームの状態をプラグインデータに保存する（保存済みの場合は最初の状態を残す）
+ * @param frame - 対象のフレーム
+ */
+function saveFrameState(frame: FrameNode): void {
+    if (frame.getPluginData(PREVIEW_STATE_KEY)) return;
+
+    const state = captureFrameState(frame);
+    const saved: SavedFrameState = {
+        width: state.width,
+        height: state.height,
+        primaryAxisSizingMode: state.primaryAxisSizingMode,
+        counterAxisSizingMode: state.counterAxisSizingMode,
+        visibility: {}
+    };
+    state.visibility.forEach((visible, node) => {
+        saved.visibility[node.id] = visible;
+    });
+    frame.setPluginData(PREVIEW_STATE_KEY, JSON.stringify(saved));
+}
+
+/**
+ * フレームにブレークポイントのレイアウトを適用してプレビューする
+ * 元の幅と表示状態は restoreLayoutPreview で戻せるようにフレームに保存する
+ * @param frame - 対象のフレーム
+ * @param breakpoint - 適用するブレークポイント
+ * @param breakpoints - 表示切り替えの対象となる全ブレークポイント
+ */
+export function previewBreakpoint(frame: FrameNode, breakpoint: Breakpoint, breakpoints: Breakpoint[]): void {
+    saveFrameState(frame);
+    applyBreakpoint(frame, breakpoint, breakpoints);
+}
+
+/**
+ * フレームを複製して各ブレークポイントのレイアウトを適用し、元のフレームの右に並べる
+ * 元のフレームは変更しない
+ * @param frame - 対象のフレーム
+ * @param breakpoints - 複製するブレークポイント
+ * @returns 幅の広い順に並んだ複製したフレーム
+ */
+export function duplicateBreakpoints(frame: FrameNode, breakpoints: Breakpoint[]): FrameNode[] {
+    const sorted = sortBreakpoints(breakpoints);
+    let x = frame.x + frame.width + DUPLICATE_GAP;
+
+    return sorted.map(breakpoint => {
+        const duplicate = frame.clone();
+        duplicate.name = `${frame.name} @${breakpoint.name}`;
+        duplicate.setPluginData(PREVIEW_STATE_KEY, '');
+        duplicate.setPluginData(PREVIEW_SOURCE_KEY, frame.id);
+        applyBreakpoint(duplicate, breakpoint, sorted);
+        duplicate.x = x;
+        duplicate.y = frame.y;
+        x += duplicate.width + DUPLICATE_GAP;
+        return duplicate;
+    });
+}
+
+/**
+ * プレビュー前の幅と表示状態にフレームを戻し、プレビュー用の複製を削除する
+ * @param frame - 対象のフレーム
+ * @returns 元に戻したものがある場合true
+ */
+export function restoreLayoutPreview(frame: FrameNode): boolean {
+    const duplicates = frame.parent && 'findChildren' in frame.parent
+        ? frame.parent.findChildren(node => node.getPluginData(PREVIEW_SOURCE_KEY) === frame.id)
+        : [];
+    duplicates.forEach(duplicate => duplicate.remove());
+
+    const data = frame.getPluginData(PREVIEW_STATE_KEY);
+    if (!data) return duplicates.length > 0;
+
+    const saved = JSON.parse(data) as SavedFrameState;
+    const visibility = new Map<SceneNode, boolean>();
+    frame.findAll(node => node.id in saved.visibility).forEach(node => {
+        visibility.set(node, saved.visibility[node.id]);
+    });
+
+    restoreFrameState({ ...saved, frame, visibility });
+    frame.setPluginData(PREVIEW_STATE_KEY, '');
+    return true;
+}
@@ -0,0 +1,100 @@
+import { LintProblem } from './types';
+import { isLayerNameSyntax, parseLayerName } from './layer-name';
+import { isVectorNode } from './assets';
+
+/**
+ * IDを持つレイヤー
+ */
+interface IdentifiedLayer {
+    node: SceneNode;
+    path: string;
+}
+
+/**
+ * 重複したIDを、フレーム内で使われていない連番付きのIDに置き換えたレイヤー名を生成する
+ * @param name - レイヤー名
+ * @param id - 重複したID
+ * @param usedIds - フレーム内で使われているID（生成したIDが追加される）
+ * @returns 修正後のレイヤー名（#id の記法で書かれていない場合はundefined）
+ */
+function createUniqueIdFix(name: string, id: string, usedIds: Set<string>): string | undefined {
+    const index = name.indexOf(`#${id}`);
+    if (index === -1) return undefined;
+
+    let uniqueId = `${id}-2`;
+    for (let i = 3; usedIds.has(uniqueId); i++) {
+        uniqueId = `${id}-${i}`;
+    }
+    usedIds.add(uniqueId);
+    return `${name.slice(0, index)}#${uniqueId}${name.slice(index + id.length + 1)}`;
+}
+
+/**
+ * フレーム内のレイヤー名をチェックする
+ * - レイヤー名の記法のエラー（空のクラス名、閉じられていない [、不明なタグ名など）
+ * - フレーム内で重複しているID（2つ目以降のレイヤーを報告）
+ * - alt のない img
+ * 記法で書かれていない名前（"Frame 12"、"Text" など。書き出しでは div になる）はチェックしない
+ * @param frame - 対象のフレーム
+ * @returns 問題の一覧（ツリーの順、重複したIDの問題は最後にまとめる）
+ */
+export function lintFrame(frame: FrameNode): LintProblem[] {
+    const problems: LintProblem[] = [];
+    const layers = new Map<string, IdentifiedLayer[]>();
+
+    function visit(node: SceneNode, parentPath: string) {
+        const path = `${parentPath} / ${node.name}`;
+        const isVector = isVectorNode(node);
+        if (!isLayerNameSyntax(node.name)) {
+            // 名前を付けていないレイヤーの子はチェックする（インラインSVGになるベクターの子はHTMLにならないため除く）
+            if ('children' in node && !isVector) {
+                node.children.forEach(child => visit(child, path));
+            }
+            return;
+        }
+
+        const parsed = parseLayerName(node.name);
+        parsed.errors.forEach(error => problems.push({ ...error, id: node.id, path, name: node.name }));
+
+        const id = parsed.attributes['id'];
+        if (id) {
+            layers.set(id, [...(layers.get(id) || []), { node, path }]);
+        }
+
+        if (parsed.tag === 'img' && !('alt' in parsed.attributes)) {
+            problems.push({
+                message: 'img に alt がありません（装飾画像の場合は alt=""）',
+                start: 0,
+                end: node.name.length,
+                fix: `${node.name.trim()}[alt=""]`,
+                id: node.id,
+                path,
+                name: node.name
+            });
+        }
+
+        // インラインSVGとして出力されるノードの子はHTMLにならないためチェックしない
+        if ('children' in node && !isVector && parsed.tag !== 'svg') {
+            node.children.forEach(child => visit(child, path));
+        }
+    }
+    frame.children.forEach(child => visit(child, frame.name));
+
+    const usedIds = new Set(layers.keys());
+    layers.forEach((identified, id) => {
+        identified.slice(1).forEach(({ node, path }) => {
+            const start = node.name.indexOf(`#${id}`);
+            problems.push({
+                message: `ID "${id}" がフレーム内で重複しています（${identified[0].path}）`,
+                start: Math.max(start, 0),
+                end: start === -1 ? node.name.length : start + id.length + 1,
+                fix: createUniqueIdFix(node.name, id, usedIds),
+                id: node.id,
+                path,
+                name: node.name
+            });
+        });
+    });
+
+    return problems;
+}
@@ -0,0 +1,372 @@
+import { NamingOptions, RenameChange } from './types';
+import { hasImageFill, isVectorNode } from './assets';
+import { getDominantSegment } from './rich-text';
+import { formatPlaceholderUrl } from './settings';
+import { slugify } from './tokens';
+import { isLayerNameSyntax } from './layer-name';
+
+// Figmaが自動で付けるレイヤー名（ブロック名・エレメント名には使わない）
+const DEFAULT_NAME_PATTERN = /^(frame|group|rectangle|ellipse|line|polygon|star|vector|text|image|instance|component|section|slice|union|subtract|intersect|exclude|auto layout)( \d+)?$/i;
+
+// ボタンとみなすフレームの最大サイズ（px）
+const BUTTON_MAX_WIDTH = 320;
+const BUTTON_MAX_HEIGHT = 72;
+
+// 見出し・ナビゲーションのリンクとみなすテキストの最大文字数
+const HEADING_MAX_LENGTH = 80;
+const LINK_MAX_LENGTH = 24;
+
+// リスト・ナビゲーションとみなす繰り返しの最小数
+const LIST_MIN_ITEMS = 3;
+
+// ヘッダーとみなすトップレベルの要素の最大の高さ（px）
+const HEADER_MAX_HEIGHT = 200;
+
+// 変更前のレイヤー名の保存に使うキー（setPluginData）
+const ORIGINAL_NAME_KEY = 'original-name';
+
+/**
+ * 要素の種類（エレメント名の元になる）
+ */
+type NodeRole = 'title' | 'text' | 'link' | 'label' | 'button' | 'nav' | 'list' | 'item' | 'image' | 'icon' | 'inner';
+
+/**
+ * 推定したタグと要素の種類
+ */
+interface NodeNaming {
+    tag: string;
+    role: NodeRole;
+    /** レイヤー名に付ける属性（例: [href="#"]） */
+    attributes?: string;
+}
+
+/**
+ * BEMのクラス名の生成状況（ブロックごと）
+ */
+interface NamingScope {
+    /** ブロック名（ブロックの外の場合はundefined） */
+    block?: string;
+    /** エレメント名ごとの使用回数 */
+    used: Map<string, number>;
+}
+
+/**
+ * レイヤー名の生成に使用する情報
+ */
+interface NamingContext {
+    options: NamingOptions;
+    /** 対象のフレーム */
+    frame: FrameNode;
+    /** テキストノードのIDごとの見出しのタグ */
+    headings: Map<string, string>;
+    /** トップレベルで使用したブロック名 */
+    blocks: Set<string>;
+    changes: RenameChange[];
+}
+
+/**
+ * レイヤー名からブロック名・エレメント名に使う名前を取得する
+ * @param node - Figmaノード
+ * @returns ハイフン区切りの名前（Figmaの自動の名前や英数字を含まない場合は空文字）
+ */
+function getMeaningfulName(node: SceneNode): string {
+    return DEFAULT_NAME_PATTERN.test(node.name.trim()) ? '' : slugify(node.name);
+}
+
+/**
+ * ノードが表示されている塗りまたは線を持つかを判定する
+ * @param node - Figmaノード
+ * @returns 塗りまたは線を持つ場合true
+ */
+function hasVisibleBackground(node: SceneNode): boolean {
+    const isVisible = (paints: unknown) => Array.isArray(paints) && paints.some((paint: Paint) => paint.visible !== false);
+    return ('fills' in node && isVisible(node.fills)) || ('strokes' in node && isVisible(node.strokes));
+}
+
+/**
+ * テキストノードの文字数（前後の空白を除く）を取得する
+ * @param node - Figmaノード
+ * @returns 文字数（テキストノード以外は undefined）
+ */
+function getTextLength(node: SceneNode): number | undefined {
+    return node.type === 'TEXT' ? node.characters.trim().length : undefined;
+}
+
+/**
+ * ノードがボタンらしい構造かを判定する
+ * 背景か線を持つ小さな自動レイアウトのフレームで、子要素がテキスト1つのもの
+ * @param node - Figmaノード
+ * @returns ボタンとみなす場合true
+ */
+export function isButtonLike(node: SceneNode): boolean {
+    return 'layoutMode' in node && node.layoutMode !== 'NONE' &&
+        node.children.length === 1 && node.children[0].type === 'TEXT' &&
+        node.width <= BUTTON_MAX_WIDTH && node.height <= BUTTON_MAX_HEIGHT &&
+        hasVisibleBackground(node);
+}
+
+/**
+ * ノードがナビゲーションらしい構造かを判定する
+ * 横並びの自動レイアウトで、子要素が全て短いテキストのもの
+ * @param node - Figmaノード
+ * @returns ナビゲーションとみなす場合true
+ */
+function isNavLike(node: SceneNode): boolean {
+    return 'layoutMode' in node && node.layoutMode === 'HORIZONTAL' &&
+        node.children.length >= LIST_MIN_ITEMS &&
+        node.children.every(child => (getTextLength(child) ?? Infinity) <= LINK_MAX_LENGTH);
+}
+
+/**
+ * ノードの構造を比較用の文字列に変換する（ノードの種類と子要素の構造）
+ * @param node - Figmaノード
+ * @returns 構造を表す文字列
+ */
+function getStructure(node: SceneNode): string {
+    return 'children' in node && node.type !== 'INSTANCE'
+        ? `${node.type}(${node.children.map(getStructure).join(',')})`
+        : node.type;
+}
+
+/**
+ * ノードがリストらしい構造かを判定する
+ * 子要素が同じ構造の繰り返しになっているもの（テキストだけの繰り返しは段落として扱う）
+ * @param node - Figmaノード
+ * @returns リストとみなす場合true
+ */
+function isListLike(node: SceneNode): boolean {
+    if (!('children' in node) || node.children.length < LIST_MIN_ITEMS) return false;
+    if (node.children.some(child => !('children' in child))) return false;
+
+    const structure = getStructure(node.children[0]);
+    return node.children.every(child => getStructure(child) === structure);
+}
+
+/**
+ * フレーム内のテキストのフォントサイズと太さから見出しのレベルを決める
+ * - 最も文字数の多いフォントサイズを本文とし、それより大きい短いテキストを見出しとする
+ * - フォントサイズ（同じ場合は太さ）の大きい順に h1〜h6 を割り当てる
+ * @param frame - 対象のフレーム
+ * @returns テキストノードのIDごとの見出しのタグ
+ */
+function rankHeadings(frame: FrameNode): Map<string, string> {
+    const texts = frame.findAllWithCriteria({ types: ['TEXT'] }).map(node => {
+        const segment = getDominantSegment(node);
+        return { id: node.id, size: segment.fontSize, weight: segment.fontWeight, length: node.characters.trim().length };
+    });
+    const headings = new Map<string, string>();
+    if (texts.length === 0) return headings;
+
+    const totals = new Map<number, number>();
+    texts.forEach(({ size, length }) => totals.set(size, (totals.get(size) || 0) + length));
+    const bodySize = [...totals].reduce((body, entry) => entry[1] > body[1] ? entry : body)[0];
+
+    const candidates = texts.filter(({ size, length }) => size > bodySize && length > 0 && length <= HEADING_MAX_LENGTH);
+    const ranks = [...new Set(candidates.map(({ size, weight }) => `${size}:${weight}`))]
+        .sort((a, b) => {
+            const [sizeA, weightA] = a.split(':').map(Number);
+            const [sizeB, weightB] = b.split(':').map(Number);
+            return sizeB - sizeA || weightB - weightA;
+        });
+
+    candidates.forEach(({ id, size, weight }) => {
+        headings.set(id, `h${Math.min(ranks.indexOf(`${size}:${weight}`) + 1, 6)}`);
+    });
+    return headings;
+}
+
+/**
+ * トップレベルの要素のランドマークのタグを決める
+ * - 最も上にある低い要素はヘッダー、最も下にあり下端に接する要素はフッター
+ * - ナビゲーションらしい要素は nav、それ以外は section
+ * @param node - フレーム直下の要素
+ * @param frame - 対象のフレーム
+ * @returns ランドマークのタグ
+ */
+function getLandmarkTag(node: SceneNode, frame: FrameNode): string {
+    if (isNavLike(node)) return 'nav';
+
+    const siblings = frame.children.filter(child => 'children' in child);
+    const top = Math.min(...siblings.map(child => child.y));
+    const bottom = Math.max(...siblings.map(child => child.y + child.height));
+    if (siblings.length > 1 && node.y === top && node.height <= HEADER_MAX_HEIGHT) return 'header';
+    if (siblings.length > 1 && node.y + node.height === bottom && bottom >= frame.height - 1) return 'footer';
+    return 'section';
+}
+
+/**
+ * ノードのタグと要素の種類を推定する
+ * @param node - Figmaノード
+ * @param parentTag - 親要素のタグ
+ * @param context - レイヤー名の生成に使用する情報
+ * @returns タグと要素の種類
+ */
+function inferNaming(node: SceneNode, parentTag: string, context: NamingContext): NodeNaming {
+    const { options, headings } = context;
+    const image: NodeNaming = {
+        tag: 'img',
+        role: 'image',
+        attributes: `[src="${formatPlaceholderUrl(options.placeholderUrl, node.width, node.height)}"]`
+    };
+
+    if (!options.semantic) {
+        if (node.type === 'TEXT') return { tag: 'p', role: 'text' };
+        if (node.type === 'RECTANGLE' && hasImageFill(node)) return image;
+        return { tag: 'div', role: 'inner' };
+    }
+
+    if (node.type === 'TEXT') {
+        if (parentTag === 'button') return { tag: 'span', role: 'label' };
+        if (parentTag === 'nav') return { tag: 'a', role: 'link', attributes: '[href="#"]' };
+        const heading = headings.get(node.id);
+        return heading ? { tag: heading, role: 'title' } : { tag: 'p', role: 'text' };
+    }
+    if (parentTag === 'ul') return { tag: 'li', role: 'item' };
+    if (node.type !== 'FRAME' && node.type !== 'GROUP' && hasImageFill(node)) return image;
+    if (isVectorNode(node)) return { tag: 'svg', role: 'icon' };
+    if (isButtonLike(node)) return { tag: 'button', role: 'button' };
+    if (isNavLike(node)) return { tag: 'nav', role: 'nav' };
+    if (isListLike(node)) return { tag: 'ul', role: 'list' };
+    return { tag: 'div', role: 'inner' };
+}
+
+/**
+ * ブロック内で重複しないエレメントのクラス名を生成する
+ * @param scope - BEMのクラス名の生成状況
+ * @param name - エレメント名
+ * @returns block__element 形式のクラス名（ブロックの外の場合はundefined）
+ */
+function createElementClass(scope: NamingScope, name: string): string | undefined {
+    if (!scope.block) return undefined;
+    const count = (scope.used.get(name) || 0) + 1;
+    scope.used.set(name, count);
+    return `${scope.block}__${count > 1 ? `${name}-${count}` : name}`;
+}
+
+/**
+ * トップレベルで重複しないブロック名を生成する
+ * @param context - レイヤー名の生成に使用する情報
+ * @param name - ブロック名の候補
+ * @returns 重複しないブロック名
+ */
+function createBlockName(context: NamingContext, name: string): string {
+    let block = name;
+    for (let i = 2; context.blocks.has(block); i++) {
+        block = `${name}-${i}`;
+    }
+    context.blocks.add(block);
+    return block;
+}
+
+/**
+ * ノードとその子孫の新しいレイヤー名を決め、変更内容に追加する
+ * - レイヤー名の記法で書かれたレイヤーは変更しない（クラス名がある場合は子孫のブロック名に使う）
+ * - リストの各項目とナビゲーションのリンクは同じ構造に同じクラス名を付ける
+ * - インスタンスの中のレイヤーは変更しない
+ * @param node - Figmaノード
+ * @param scope - BEMのクラス名の生成状況
+ * @param parentTag - 親要素のタグ
+ * @param context - レイヤー名の生成に使用する情報
+ * @param isTopLevel - フレーム直下の要素かどうか（ランドマークとブロックにする）
+ */
+function planNode(node: SceneNode, scope: NamingScope, parentTag: string, context: NamingContext, isTopLevel: boolean): void {
+    let tag: string;
+    let childScope = scope;
+
+    if (isLayerNameSyntax(node.name)) {
+        const name = node.name.trim();
+        tag = name.match(/^[a-z][a-z0-9-]*/)?.[0] || 'div';
+        const block = name.match(/\.([a-zA-Z0-9_-]+)/)?.[1]?.split(/__|--/)[0];
+        if (block) childScope = { block, used: new Map() };
+    } else {
+        const naming = inferNaming(node, parentTag, context);
+        const isLandmark = isTopLevel && context.options.semantic && (naming.tag === 'div' || naming.tag === 'nav') && 'children' in node;
+        tag = isLandmark ? getLandmarkTag(node, context.frame) : naming.tag;
+
+        let cls: string | undefined;
+        if (context.options.bem) {
+            if (isTopLevel) {
+                const block = createBlockName(context, getMeaningfulName(node) || (naming.role === 'inner' ? tag : naming.role));
+                childScope = { block, used: new Map() };
+                cls = block;
+            } else {
+                cls = createElementClass(scope, naming.role === 'inner' || naming.role === 'list' ? getMeaningfulName(node) || naming.role : naming.role);
+            }
+        }
+
+        const name = `${tag}${cls ? `.${cls}` : ''}${naming.attributes || ''}`;
+        if (name !== node.name) {
+            context.changes.push({ id: node.id, from: node.name, to: name });
+        }
+    }
+
+    if (!('children' in node) || node.type === 'INSTANCE' || tag === 'svg' || tag === 'img') return;
+
+    if (tag === 'ul' || tag === 'ol' || tag === 'nav') {
+        // リストの項目・ナビゲーションのリンクは同じ時点の生成状況から始め、同じ構造に同じクラス名を付ける
+        const snapshot = new Map(childScope.used);
+        node.children.forEach(child => {
+            const itemScope = { block: childScope.block, used: new Map(snapshot) };
+            planNode(child, itemScope, tag, context, false);
+            itemScope.used.forEach((count, name) => childScope.used.set(name, Math.max(count, childScope.used.get(name) || 0)));
+        });
+        return;
+    }
+    node.children.forEach(child => planNode(child, childScope, tag, context, false));
+}
+
+/**
+ * フレーム内のレイヤー名を推定したタグとクラス名に変更する内容を生成する（レイヤー名は変更しない）
+ * - 見出し（フォントサイズと太さの順位）、ボタン、リスト、ナビゲーションを推定
+ * - フレーム直下の要素は header/footer/nav/section のランドマークとBEMのブロックにする
+ * - 子孫の要素は親のブロック名から block__element のクラス名を付ける
+ * @param frame - 対象のフレーム（フレーム自体の名前は変更しない）
+ * @param options - レイヤー名の生成のオプション
+ * @returns レイヤー名の変更内容
+ */
+export function planRename(frame: FrameNode, options: NamingOptions): RenameChange[] {
+    const context: NamingContext = {
+        options,
+        frame,
+        headings: options.semantic ? rankHeadings(frame) : new Map(),
+        blocks: new Set(),
+        changes: []
+    };
+    frame.children.forEach(child => planNode(child, { used: new Map() }, 'div', context, true));
+    return context.changes;
+}
+
+/**
+ * レイヤー名の変更内容を適用する
+ * 変更前のレイヤー名は revertRename で戻せるようにノードに保存する（すでに保存されている場合は最初の名前を残す）
+ * @param changes - レイヤー名の変更内容
+ * @returns 変更したレイヤーの数
+ */
+export async function applyRename(changes: RenameChange[]): Promise<number> {
+    let count = 0;
+    for (const change of changes) {
+        const node = await figma.getNodeByIdAsync(change.id);
+        if (node && 'name' in node && node.type !== 'DOCUMENT' && node.type !== 'PAGE') {
+            if (!node.getPluginData(ORIGINAL_NAME_KEY)) {
+                node.setPluginData(ORIGINAL_NAME_KEY, node.name);
+            }
+            node.name = change.to;
+            count++;
+        }
+    }
+    return count;
+}
+
+/**
+ * フレーム内のレイヤー名を applyRename で変更する前の名前に戻す
+ * @param frame - 対象のフレーム
+ * @returns 元に戻したレイヤーの数
+ */
+export function revertRename(frame: FrameNode): number {
+    const nodes = frame.findAll(node => node.getPluginData(ORIGINAL_NAME_KEY) !== '');
+    nodes.forEach(node => {
+        node.name = node.getPluginData(ORIGINAL_NAME_KEY);
+        node.setPluginData(ORIGINAL_NAME_KEY, '');
+    });
+    return nodes.length;
+}
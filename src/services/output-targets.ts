@@ -0,0 +1,195 @@
+import { ElementData, OutputTarget, OutputTargetName, StyleOptions, TargetContext } from './types';
+import { generateHTML } from './html-generator';
+import { collectElementStyles, generateSCSS } from './scss-generator';
+import { generateResponsiveSCSS, measureBreakpoints } from './responsive';
+import { isEmptyTokenRegistry } from './tokens';
+import { applyTailwindClasses } from './tailwind';
+import { toCamelCase } from './components';
+import { Framework, generateComponents } from './component-generator';
+import { getIndentUnit, isHookClass } from './settings';
+
+/**
+ * HTML要素のデータ構造からマークアップを生成する
+ * @param elements - HTML要素のデータ構造
+ * @param options - スタイル生成のオプション（インデントを使用）
+ * @returns 生成されたHTML文字列
+ */
+function generateMarkup(elements: ElementData[], options: StyleOptions): string {
+    const indentUnit = getIndentUnit(options.indentSize);
+    return elements
+        .map(element => generateHTML(element, '', indentUnit))
+        .join('\n');
+}
+
+/**
+ * スタイルシートを生成する（レスポンシブ出力の場合はメディアクエリ付き）
+ * @param context - 書き出し対象の情報
+ * @param options - スタイル生成のオプション
+ * @returns 生成されたスタイルシート
+ */
+function generateStyleSheet({ frame, elements, breakpoints }: TargetContext, options: StyleOptions): string {
+    return breakpoints
+        ? generateResponsiveSCSS(frame, elements, breakpoints, options)
+        : generateSCSS(elements, options);
+}
+
+/**
+ * プレーンなCSSとして出力するためのオプションに変換する
+ * SCSS変数・mixin・ネストはCSSで使えないため、トークンは値をそのまま出力し、ネストしない
+ * @param options - スタイル生成のオプション
+ * @returns CSS用のオプション
+ */
+function toCSSOptions(options: StyleOptions): StyleOptions {
+    return { ...options, tokens: undefined, nesting: false };
+}
+
+/**
+ * HTML要素のデータ構造からCSS Modulesのクラス名の対応を生成する（フック用の接頭辞で始まるものは除く）
+ * 参照するキーはキャメルケース（例: "card__title--small" → "cardTitleSmall"）
+ * @param elements - HTML要素のデータ構造
+ * @param hookClassPrefix - JavaScriptのフック用のクラス名の接頭辞
+ * @returns クラス名と参照するキーの対応
+ */
+function collectClassMap(elements: ElementData[], hookClassPrefix?: string): Record<string, string> {
+    const classMap: Record<string, string> = {};
+
+    function collect(element: ElementData) {
+        (element.classes || [])
+            .filter(cls => !isHookClass(cls, hookClassPrefix))
+            .forEach(cls => {
+                classMap[cls] = toCamelCase(cls);
+            });
+        element.children.forEach(collect);
+    }
+
+    elements.forEach(collect);
+    return classMap;
+}
+
+/**
+ * SCSSのスタイルシートを生成する（デザイントークンがある場合は _tokens.scss を参照）
+ * @param context - 書き出し対象の情報
+ * @returns 生成されたSCSS文字列
+ */
+function generateSCSSStyleSheet(context: TargetContext): string {
+    const { tokens } = context.options;
+    const scss = generateStyleSheet(context, context.options);
+    return tokens && !isEmptyTokenRegistry(tokens) ? `@use 'tokens' as *;\n\n${scss}` : scss;
+}
+
+/**
+ * コンポーネントを出力するターゲットを生成する
+ * スタイルはSCSSとしてルートのコンポーネントから読み込む
+ * @param label - UIに表示する名前
+ * @param framework - 出力するフレームワーク
+ * @returns 出力ターゲット
+ */
+function createComponentTarget(label: string, framework: Framework): OutputTarget {
+    return {
+        label,
+        generate(context) {
+            const { root, components } = generateComponents(context.frame.name, context.elements, framework, getIndentUnit(context.options.indentSize));
+            return {
+                html: root.data as string,
+                markupFileName: root.path,
+                files: components,
+                styles: generateSCSSStyleSheet(context),
+                styleFileName: 'style.scss'
+            };
+        }
+    };
+}
+
+/**
+ * 単体で表示できるHTMLドキュメント用のマークアップとCSSを生成する
+ * 出力ターゲットに関わらず、クラス名を使うHTMLとプレーンなCSSを生成する
+ * @param context - 書き出し対象の情報
+ * @returns HTMLのマークアップとCSS
+ */
+export function generateDocumentParts(context: TargetContext): { markup: string, styles: string } {
+    return {
+        markup: generateMarkup(context.elements, context.options),
+        styles: generateStyleSheet(context, toCSSOptions(context.options))
+    };
+}
+
+/**
+ * SCSS（デザイントークンがある場合は _tokens.scss を参照）
+ */
+const scssTarget: OutputTarget = {
+    label: 'SCSS',
+    generate(context) {
+        return {
+            html: generateMarkup(context.elements, context.options),
+            markupFileName: 'index.html',
+            styles: generateSCSSStyleSheet(context),
+            styleFileName: 'style.scss'
+        };
+    }
+};
+
+/**
+ * プレーンなCSS（ネストなしのフラットなルール）
+ */
+const cssTarget: OutputTarget = {
+    label: 'CSS',
+    generate(context) {
+        return {
+            html: generateMarkup(context.elements, context.options),
+            markupFileName: 'index.html',
+            styles: generateStyleSheet(context, toCSSOptions(context.options)),
+            styleFileName: 'style.css'
+        };
+    }
+};
+
+/**
+ * CSS Modules（.module.css とクラス名の対応）
+ */
+const cssModulesTarget: OutputTarget = {
+    label: 'CSS Modules',
+    generate(context) {
+        return {
+            html: generateMarkup(context.elements, context.options),
+            markupFileName: 'index.html',
+            styles: generateStyleSheet(context, toCSSOptions(context.options)),
+            styleFileName: 'style.module.css',
+            classMap: collectClassMap(context.elements, context.options.hookClassPrefix)
+        };
+    }
+};
+
+/**
+ * Tailwind CSS（ユーティリティクラスをHTMLの class 属性に出力）
+ */
+const tailwindTarget: OutputTarget = {
+    label: 'Tailwind',
+    generate({ frame, elements, options, breakpoints }) {
+        // ユーティリティクラスのスケールは px の値から決めるため、長さの単位は変換しない
+        const cssOptions: StyleOptions = { ...toCSSOptions(options), unit: 'px' };
+        const collect = () => elements.flatMap(element => collectElementStyles(element, cssOptions));
+        const measured = breakpoints
+            ? measureBreakpoints(frame, breakpoints, collect).map(({ breakpoint, result }) => ({ breakpoint, styles: result }))
+            : [{ styles: collect() }];
+
+        return {
+            html: generateMarkup(applyTailwindClasses(elements, measured, options.hookClassPrefix), options),
+            markupFileName: 'index.html',
+            styles: '@tailwind base;\n@tailwind components;\n@tailwind utilities;\n',
+            styleFileName: 'style.css'
+        };
+    }
+};
+
+/**
+ * 出力ターゲットの一覧
+ */
+export const OUTPUT_TARGETS: Record<OutputTargetName, OutputTarget> = {
+    'scss': scssTarget,
+    'css': cssTarget,
+    'css-modules': cssModulesTarget,
+    'tailwind': tailwindTarget,
+    'react': createComponentTarget('React', 'react'),
+    'vue': createComponentTarget('Vue', 'vue'),
+    'astro': createComponentTarget('Astro', 'astro')
+};
@@ -0,0 +1,200 @@
+import { formatRGBA } from './color';
+
+type Point = { x: number, y: number };
+
+// FigmaのブレンドモードとCSSのブレンドモードの対応（NORMAL, PASS_THROUGH は出力しない）
+const blendModeMap: Partial<Record<BlendMode, string>> = {
+    DARKEN: 'darken',
+    MULTIPLY: 'multiply',
+    LINEAR_BURN: 'color-burn',
+    COLOR_BURN: 'color-burn',
+    LIGHTEN: 'lighten',
+    SCREEN: 'screen',
+    LINEAR_DODGE: 'color-dodge',
+    COLOR_DODGE: 'color-dodge',
+    OVERLAY: 'overlay',
+    SOFT_LIGHT: 'soft-light',
+    HARD_LIGHT: 'hard-light',
+    DIFFERENCE: 'difference',
+    EXCLUSION: 'exclusion',
+    HUE: 'hue',
+    SATURATION: 'saturation',
+    COLOR: 'color',
+    LUMINOSITY: 'luminosity'
+};
+
+/**
+ * 塗り/線が表示されているかを判定する
+ * @param paint - Figmaのペイント
+ * @returns 表示されている場合true
+ */
+export function isVisiblePaint(paint: Paint): boolean {
+    return paint.visible !== false && (paint.opacity === undefined || paint.opacity > 0);
+}
+
+/**
+ * FigmaのブレンドモードをCSSのブレンドモードに変換する
+ * @param mode - Figmaのブレンドモード
+ * @returns CSSのブレンドモード（通常の合成の場合はundefined）
+ */
+export function formatBlendMode(mode: BlendMode | undefined): string | undefined {
+    return mode ? blendModeMap[mode] : undefined;
+}
+
+/**
+ * 単色の塗りをCSSの色に変換する
+ * @param paint - 単色の塗り
+ * @returns rgba()形式の文字列
+ */
+export function formatSolidPaint(paint: SolidPaint): string {
+    return formatRGBA(paint.color, paint.opacity);
+}
+
+/**
+ * グラデーションの変換行列の逆行列で、グラデーション空間の点をノード上の座標（px）に変換する
+ * @param transform - グラデーションの変換行列
+ * @param point - グラデーション空間の点（0〜1）
+ * @param width - ノードの幅
+ * @param height - ノードの高さ
+ * @returns ノード上の座標（px）
+ */
+function toNodeSpace(transform: Transform, point: Point, width: number, height: number): Point {
+    const [[a, b, c], [d, e, f]] = transform;
+    const det = a * e - b * d || 1;
+    const x = (e * (point.x - c) - b * (point.y - f)) / det;
+    const y = (a * (point.y - f) - d * (point.x - c)) / det;
+    return { x: x * width, y: y * height };
+}
+
+/**
+ * ベクトルの向きをCSSの角度（上が0deg、時計回り）に変換する
+ * @param from - 始点
+ * @param to - 終点
+ * @returns 角度（deg）
+ */
+function toCSSAngle(from: Point, to: Point): number {
+    const angle = Math.atan2(to.x - from.x, -(to.y - from.y)) * 180 / Math.PI;
+    return (angle + 360) % 360;
+}
+
+/**
+ * 割合をパーセント表記に変換する
+ * @param value - 割合（0〜1）
+ * @returns 小数第1位までのパーセント表記
+ */
+function toPercent(value: number): string {
+    return `${Math.round(value * 1000) / 10}%`;
+}
+
+/**
+ * グラデーションの色の停止点を変換する
+ * @param paint - グラデーションの塗り
+ * @param position - 停止点の位置をCSS上の値に変換する関数
+ * @returns カンマ区切りの停止点
+ */
+function formatColorStops(paint: GradientPaint, position: (stop: ColorStop) => string): string {
+    const opacity = paint.opacity !== undefined ? paint.opacity : 1;
+    return paint.gradientStops
+        .map(stop => `${formatRGBA(stop.color, stop.color.a * opacity)} ${position(stop)}`)
+        .join(', ');
+}
+
+/**
+ * 線形グラデーションを linear-gradient() に変換する
+ * Figmaのハンドル位置をCSSのグラデーションラインに投影して停止点の位置を求める
+ * @param paint - グラデーションの塗り
+ * @param width - ノードの幅
+ * @param height - ノードの高さ
+ * @returns linear-gradient()
+ */
+function formatLinearGradient(paint: GradientPaint, width: number, height: number): string {
+    const start = toNodeSpace(paint.gradientTransform, { x: 0, y: 0.5 }, width, height);
+    const end = toNodeSpace(paint.gradientTransform, { x: 1, y: 0.5 }, width, height);
+    const angle = toCSSAngle(start, end);
+
+    // CSSのグラデーションラインの長さと向き
+    const radian = angle * Math.PI / 180;
+    const direction = { x: Math.sin(radian), y: -Math.cos(radian) };
+    const length = Math.abs(width * direction.x) + Math.abs(height * direction.y) || 1;
+    const project = (point: Point) =>
+        ((point.x - width / 2) * direction.x + (point.y - height / 2) * direction.y) / length + 0.5;
+
+    const from = project(start);
+    const to = project(end);
+    const stops = formatColorStops(paint, stop => toPercent(from + (to - from) * stop.position));
+
+    return `linear-gradient(${Math.round(angle)}deg, ${stops})`;
+}
+
+/**
+ * 円形・ダイヤモンドグラデーションを radial-gradient() に変換する
+ * @param paint - グラデーションの塗り
+ * @param width - ノードの幅
+ * @param height - ノードの高さ
+ * @returns radial-gradient()
+ */
+function formatRadialGradient(paint: GradientPaint, width: number, height: number): string {
+    const center = toNodeSpace(paint.gradientTransform, { x: 0.5, y: 0.5 }, width, height);
+    const edgeX = toNodeSpace(paint.gradientTransform, { x: 1, y: 0.5 }, width, height);
+    const edgeY = toNodeSpace(paint.gradientTransform, { x: 0.5, y: 1 }, width, height);
+    const radiusX = Math.round(Math.hypot(edgeX.x - center.x, edgeX.y - center.y));
+    const radiusY = Math.round(Math.hypot(edgeY.x - center.x, edgeY.y - center.y));
+    const stops = formatColorStops(paint, stop => toPercent(stop.position));
+
+    return `radial-gradient(ellipse ${radiusX}px ${radiusY}px at ${toPercent(center.x / width)} ${toPercent(center.y / height)}, ${stops})`;
+}
+
+/**
+ * 角度グラデーションを conic-gradient() に変換する
+ * @param paint - グラデーションの塗り
+ * @param width - ノードの幅
+ * @param height - ノードの高さ
+ * @returns conic-gradient()
+ */
+function formatAngularGradient(paint: GradientPaint, width: number, height: number): string {
+    const center = toNodeSpace(paint.gradientTransform, { x: 0.5, y: 0.5 }, width, height);
+    const edge = toNodeSpace(paint.gradientTransform, { x: 1, y: 0.5 }, width, height);
+    const stops = formatColorStops(paint, stop => toPercent(stop.position));
+
+    return `conic-gradient(from ${Math.round(toCSSAngle(center, edge))}deg at ${toPercent(center.x / width)} ${toPercent(center.y / height)}, ${stops})`;
+}
+
+/**
+ * グラデーションの塗りをCSSのグラデーション関数に変換する
+ * @param paint - グラデーションの塗り
+ * @param width - ノードの幅
+ * @param height - ノードの高さ
+ * @returns CSSのグラデーション関数
+ */
+export function formatGradientPaint(paint: GradientPaint, width: number, height: number): string {
+    switch (paint.type) {
+        case 'GRADIENT_LINEAR':
+            return formatLinearGradient(paint, width, height);
+        case 'GRADIENT_ANGULAR':
+            return formatAngularGradient(paint, width, height);
+        default:
+            // ダイヤモンドグラデーションはCSSに相当するものがないため円形で近似
+            return formatRadialGradient(paint, width, height);
+    }
+}
+
+/**
+ * 塗りを background の1レイヤー分の値に変換する
+ * - 単色は最下層以外では重ねられないため linear-gradient() で表現する
+ * - 画像の塗りは画像書き出しで扱うため対象外
+ * @param paint - Figmaのペイント
+ * @param width - ノードの幅
+ * @param height - ノードの高さ
+ * @param isBottomLayer - 最下層のレイヤーかどうか
+ * @returns background のレイヤー（変換できない場合はundefined）
+ */
+export function formatBackgroundLayer(paint: Paint, width: number, height: number, isBottomLayer: boolean): string | undefined {
+    if (paint.type === 'SOLID') {
+        const color = formatSolidPaint(paint);
+        return isBottomLayer ? color : `linear-gradient(${color}, ${color})`;
+    }
+    if (paint.type === 'IMAGE' || paint.type === 'VIDEO') {
+        return undefined;
+    }
+    return formatGradientPaint(paint, width, height);
+}
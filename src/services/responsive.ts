@@ -0,0 +1,218 @@
+import { Breakpoint, ElementData, StyleOptions, StyleSheet } from './types';
+import { collectStyles, diffDeclarations, formatNestedStyleSheet, formatStyleSheet, getPropertyName, toPropertyMap } from './scss-generator';
+import { getIndentUnit } from './settings';
+import { convertStyleSheetUnits, FLUID_PROPERTIES, formatFluidDeclaration } from './units';
+
+/**
+ * レイアウト変更前のフレームの状態
+ */
+interface FrameState {
+    frame: FrameNode;
+    width: number;
+    height: number;
+    primaryAxisSizingMode: FrameNode['primaryAxisSizingMode'];
+    counterAxisSizingMode: FrameNode['counterAxisSizingMode'];
+    visibility: Map<SceneNode, boolean>;
+}
+
+/**
+ * ブレークポイントを幅の広い順に並べ替える
+ * @param breakpoints - ブレークポイントの配列
+ * @returns 幅の広い順に並べ替えた新しい配列
+ */
+export function sortBreakpoints(breakpoints: Breakpoint[]): Breakpoint[] {
+    return [...breakpoints].sort((a, b) => b.width - a.width);
+}
+
+/**
+ * フレームの幅と子孫ノードの表示状態を記録する
+ * @param frame - 対象のフレーム
+ * @returns 記録したフレームの状態
+ */
+export function captureFrameState(frame: FrameNode): FrameState {
+    const visibility = new Map<SceneNode, boolean>();
+
+    function recordVisibility(node: SceneNode) {
+        visibility.set(node, node.visible);
+        if ('children' in node) {
+            node.children.forEach(child => recordVisibility(child));
+        }
+    }
+
+    frame.children.forEach(child => recordVisibility(child));
+
+    return {
+        frame,
+        width: frame.width,
+        height: frame.height,
+        primaryAxisSizingMode: frame.primaryAxisSizingMode,
+        counterAxisSizingMode: frame.counterAxisSizingMode,
+        visibility
+    };
+}
+
+/**
+ * 記録しておいたフレームの幅と子孫ノードの表示状態を元に戻す
+ * @param state - captureFrameStateで記録した状態
+ */
+export function restoreFrameState(state: FrameState): void {
+    const { frame } = state;
+    frame.resize(state.width, state.height);
+
+    // resizeでAuto Layoutのサイズ設定がFIXEDになるため元に戻す
+    if (frame.layoutMode !== 'NONE') {
+        frame.primaryAxisSizingMode = state.primaryAxisSizingMode;
+        frame.counterAxisSizingMode = state.counterAxisSizingMode;
+    }
+
+    state.visibility.forEach((visible, node) => {
+        if (node.visible !== visible) {
+            node.visible = visible;
+        }
+    });
+}
+
+/**
+ * フレームをブレークポイントの幅に変更し、.is_{name} 要素の表示/非表示を切り替える
+ * @param frame - 対象のフレーム
+ * @param breakpoint - 適用するブレークポイント
+ * @param breakpoints - 表示切り替えの対象となる全ブレークポイント
+ */
+export function applyBreakpoint(frame: FrameNode, breakpoint: Breakpoint, breakpoints: Breakpoint[]): void {
+    frame.resize(breakpoint.width, frame.height);
+
+    function toggleVisibility(node: SceneNode) {
+        const matched = breakpoints.filter(({ name }) => node.name.includes(`.is_${name}`));
+        if (matched.length > 0) {
+            node.visible = matched.some(({ name }) => name === breakpoint.name);
+        }
+
+        if ('children' in node) {
+            node.children.forEach(child => toggleVisibility(child));
+        }
+    }
+
+    frame.children.forEach(child => toggleVisibility(child));
+}
+
+/**
+ * 各ブレークポイントで収集したスタイルを、ベースのルールとメディアクエリの上書きに統合する
+ * - 最も幅の広いブレークポイントをベースとする
+ * - それより狭いブレークポイントは @media (max-width) で変化したプロパティのみ出力
+ * @param sheets - 幅の広い順に並んだブレークポイントごとのスタイル
+ * @param options - スタイル生成のオプション（ネストとインデントを使用）
+ * @returns 生成されたSCSS文字列
+ */
+export function mergeResponsiveStyleSheets(sheets: { breakpoint: Breakpoint, sheet: StyleSheet }[], options: StyleOptions = {}): string {
+    if (sheets.length === 0) return '';
+    const indentUnit = getIndentUnit(options.indentSize);
+    const format = (sheet: StyleSheet, indent = '') => options.nesting
+        ? formatNestedStyleSheet(sheet, indent, indentUnit)
+        : formatStyleSheet(sheet, indent, indentUnit);
+
+    const [base, ...narrower] = sheets;
+    const effective: Record<string, Map<string, string>> = {};
+    base.sheet.selectors.forEach(selector => {
+        effective[selector] = toPropertyMap(base.sheet.styles[selector]);
+    });
+
+    const output = [format(base.sheet)];
+
+    narrower.forEach(({ breakpoint, sheet }) => {
+        const overrides: StyleSheet = { selectors: [], styles: {} };
+
+        sheet.selectors.forEach(selector => {
+            const current = toPropertyMap(sheet.styles[selector]);
+            const diff = diffDeclarations(effective[selector] || new Map(), current);
+            if (diff.length > 0) {
+                overrides.selectors.push(selector);
+                overrides.styles[selector] = diff;
+            }
+            effective[selector] = current;
+        });
+
+        const rules = format(overrides, indentUnit);
+        if (rules) {
+            output.push(`@media (max-width: ${breakpoint.width}px) {\n${rules}}\n`);
+        }
+    });
+
+    return output.filter(Boolean).join('\n');
+}
+
+/**
+ * フレームを各ブレークポイントの幅にリサイズして計測する
+ * ブレークポイントごとに一度だけリサイズし、計測後はフレームの幅と表示状態を元に戻す
+ * @param frame - 対象のフレーム
+ * @param breakpoints - 使用するブレークポイント
+ * @param measure - 各ブレークポイントで実行する計測処理
+ * @returns 幅の広い順に並んだブレークポイントごとの計測結果
+ */
+export function measureBreakpoints<T>(frame: FrameNode, breakpoints: Breakpoint[], measure: () => T): { breakpoint: Breakpoint, result: T }[] {
+    const sorted = sortBreakpoints(breakpoints);
+    const state = captureFrameState(frame);
+
+    try {
+        return sorted.map(breakpoint => {
+            applyBreakpoint(frame, breakpoint, sorted);
+            return { breakpoint, result: measure() };
+        });
+    } finally {
+        restoreFrameState(state);
+    }
+}
+
+/**
+ * PCとSP（最も広い・狭いブレークポイント）で値が異なるフォントサイズ・余白を clamp() にする
+ * clamp() にした宣言は全てのブレークポイントで同じ値にするため、メディアクエリでは上書きされない
+ * その他の長さは指定の単位に変換する
+ * @param sheets - 幅の広い順に並んだブレークポイントごとのスタイル（長さは px）
+ * @param options - スタイル生成のオプション
+ * @returns clamp() と単位の変換を適用したブレークポイントごとのスタイル
+ */
+export function applyFluidSizing(sheets: { breakpoint: Breakpoint, sheet: StyleSheet }[], options: StyleOptions = {}): { breakpoint: Breakpoint, sheet: StyleSheet }[] {
+    const converted = sheets.map(({ breakpoint, sheet }) => ({ breakpoint, sheet: convertStyleSheetUnits(sheet, options) }));
+    if (sheets.length < 2) return converted;
+
+    const wide = sheets[0];
+    const narrow = sheets[sheets.length - 1];
+
+    wide.sheet.selectors.forEach(selector => {
+        const wideStyles = toPropertyMap(wide.sheet.styles[selector] || []);
+        const narrowStyles = toPropertyMap(narrow.sheet.styles[selector] || []);
+
+        FLUID_PROPERTIES.forEach(property => {
+            const wideDeclaration = wideStyles.get(property);
+            const narrowDeclaration = narrowStyles.get(property);
+            if (!wideDeclaration || !narrowDeclaration || wideDeclaration === narrowDeclaration) return;
+
+            const fluid = formatFluidDeclaration(wideDeclaration, narrowDeclaration, wide.breakpoint.width, narrow.breakpoint.width, options);
+            if (!fluid) return;
+
+            converted.forEach(({ sheet }) => {
+                sheet.styles[selector] = (sheet.styles[selector] || [])
+                    .map(declaration => getPropertyName(declaration) === property ? fluid : declaration);
+            });
+        });
+    });
+
+    return converted;
+}
+
+/**
+ * フレームを各ブレークポイントの幅で計測し、メディアクエリ付きのSCSSを生成する
+ * fluid が有効な場合は、PCとSPで異なるフォントサイズ・余白を clamp() で出力する
+ * @param frame - 対象のフレーム
+ * @param elements - フレームの子要素のHTML要素データ
+ * @param breakpoints - 使用するブレークポイント
+ * @param options - スタイル生成のオプション
+ * @returns 生成されたSCSS文字列
+ */
+export function generateResponsiveSCSS(frame: FrameNode, elements: ElementData[], breakpoints: Breakpoint[], options: StyleOptions = {}): string {
+    // clamp() の計算は px の値で行うため、単位の変換は計測後にまとめて行う
+    const measureOptions: StyleOptions = options.fluid ? { ...options, unit: 'px' } : options;
+    const measured = measureBreakpoints(frame, breakpoints, () => collectStyles(elements, measureOptions));
+    const sheets = measured.map(({ breakpoint, result }) => ({ breakpoint, sheet: result }));
+
+    return mergeResponsiveStyleSheets(options.fluid ? applyFluidSizing(sheets, options) : sheets, options);
+}
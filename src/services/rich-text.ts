@@ -0,0 +1,266 @@
+import { ElementData, TextSegment } from './types';
+import { isHookClass } from './settings';
+
+/**
+ * 文字範囲ごとに取得するテキストのプロパティ
+ */
+const TEXT_SEGMENT_FIELDS: (keyof Omit<TextSegment, 'characters' | 'start' | 'end'>)[] = [
+    'fontSize',
+    'fontName',
+    'fontWeight',
+    'fills',
+    'fillStyleId',
+    'textStyleId',
+    'textDecoration',
+    'textCase',
+    'letterSpacing',
+    'lineHeight',
+    'hyperlink',
+    'listOptions'
+];
+
+// ブロック要素を子に持てないタグ（段落やリストを含む場合は div に置き換える）
+const PHRASING_TAGS = ['p', 'span'];
+
+// 改行（Shift+Enter）を表す文字
+const LINE_SEPARATOR = '\u2028';
+
+/**
+ * 段落ごとの文字範囲
+ */
+interface Paragraph {
+    listType: TextListOptions['type'] | undefined;
+    runs: ElementData[];
+}
+
+/**
+ * テキストノードの文字範囲ごとのスタイルを取得する
+ * @param node - テキストノード
+ * @returns 文字範囲ごとのスタイル
+ */
+export function getTextSegments(node: TextNode): TextSegment[] {
+    return node.getStyledTextSegments(TEXT_SEGMENT_FIELDS);
+}
+
+/**
+ * figma.mixed（symbol）の場合は代わりの値を返す
+ * @param value - ノードのプロパティの値
+ * @param fallback - 代わりの値
+ * @returns プロパティの値
+ */
+function unmixed<T>(value: T | PluginAPI['mixed'], fallback: T): T {
+    return typeof value === 'symbol' ? fallback : value;
+}
+
+/**
+ * テキストノード自体のプロパティから文字範囲のスタイルを生成する
+ * 空のテキストノードは getStyledTextSegments が空の配列を返すため、その代わりに使用する
+ * @param node - テキストノード
+ * @returns ノード全体の文字範囲のスタイル
+ */
+function createNodeSegment(node: TextNode): TextSegment {
+    return {
+        characters: node.characters,
+        start: 0,
+        end: node.characters.length,
+        fontSize: unmixed(node.fontSize, 16),
+        fontName: unmixed(node.fontName, { family: 'Inter', style: 'Regular' }),
+        fontWeight: unmixed(node.fontWeight, 400),
+        fills: [...unmixed(node.fills, [])],
+        fillStyleId: unmixed(node.fillStyleId, ''),
+        textStyleId: unmixed(node.textStyleId, ''),
+        textDecoration: unmixed(node.textDecoration, 'NONE'),
+        textCase: unmixed(node.textCase, 'ORIGINAL'),
+        letterSpacing: unmixed(node.letterSpacing, { value: 0, unit: 'PIXELS' }),
+        lineHeight: unmixed(node.lineHeight, { unit: 'AUTO' }),
+        hyperlink: unmixed(node.hyperlink, null),
+        listOptions: { type: 'NONE' }
+    };
+}
+
+/**
+ * テキストノードで最も文字数の多い文字範囲（ベースとなるスタイル）を取得する
+ * 空のテキストノードの場合はノード自体のプロパティを使用する
+ * @param node - テキストノード
+ * @returns ベースとなる文字範囲のスタイル
+ */
+export function getDominantSegment(node: TextNode): TextSegment {
+    const segments = getTextSegments(node);
+    if (segments.length === 0) return createNodeSegment(node);
+
+    return segments.reduce((dominant, segment) =>
+        segment.end - segment.start > dominant.end - dominant.start ? segment : dominant
+    );
+}
+
+/**
+ * 文字範囲のスタイルを比較用の文字列に変換する
+ * @param segment - 文字範囲のスタイル
+ * @returns リンク・リスト以外のスタイルを表す文字列
+ */
+function getSegmentSignature(segment: TextSegment): string {
+    return JSON.stringify([
+        segment.fontSize,
+        segment.fontName,
+        segment.fontWeight,
+        segment.fills,
+        segment.fillStyleId,
+        segment.textStyleId,
+        segment.textDecoration,
+        segment.textCase,
+        segment.letterSpacing,
+        segment.lineHeight
+    ]);
+}
+
+/**
+ * ベースのクラス名から子要素のクラス名を生成する
+ * 例: "card" → "card__run-1"、"card__title" → "card__title-run-1"
+ * @param baseClass - ベースのクラス名
+ * @param name - 子要素の名前
+ * @returns 子要素のクラス名
+ */
+function createChildClass(baseClass: string, name: string): string {
+    return baseClass.includes('__') ? `${baseClass}-${name}` : `${baseClass}__${name}`;
+}
+
+/**
+ * 文字範囲のタグ名を決定する
+ * - リンク: a
+ * - ベースより太字: strong
+ * - それ以外: span
+ * @param segment - 文字範囲のスタイル
+ * @param base - ベースとなる文字範囲のスタイル
+ * @returns タグ名
+ */
+function getRunTag(segment: TextSegment, base: TextSegment): string {
+    if (segment.hyperlink) return 'a';
+    if (segment.fontWeight >= 600 && segment.fontWeight > base.fontWeight) return 'strong';
+    return 'span';
+}
+
+/**
+ * テキストノードの文字範囲・改行・リストから子要素のデータ構造を生成する
+ * 単一のスタイルで改行やリストを含まない場合は undefined を返す（通常のテキストとして扱う）
+ * @param node - テキストノード
+ * @param tag - テキスト要素のタグ名
+ * @param classes - テキスト要素のクラス名
+ * @param hookClassPrefix - JavaScriptのフック用のクラス名の接頭辞
+ * @returns テキスト要素のタグ名・子要素・インライン出力かどうか
+ */
+export function generateRichTextData(node: TextNode, tag: string, classes: string[], hookClassPrefix?: string): Pick<ElementData, 'tag' | 'children' | 'inline'> | undefined {
+    const segments = getTextSegments(node);
+    const hasBreak = /[\n\u2028]/.test(node.characters.replace(/\n+$/, ''));
+    if (segments.length <= 1 && !hasBreak && !segments.some(segment => segment.listOptions.type !== 'NONE')) {
+        return undefined;
+    }
+
+    const base = getDominantSegment(node);
+    const baseSignature = getSegmentSignature(base);
+    const baseClass = classes.find(cls => !isHookClass(cls, hookClassPrefix)) || `text-${node.id.replace(/[^a-zA-Z0-9]+/g, '-')}`;
+
+    // 同じスタイルの文字範囲は同じクラス名を使う
+    const runClasses = new Map<string, string>();
+    function getRunClass(segment: TextSegment): string {
+        const signature = getSegmentSignature(segment);
+        if (!runClasses.has(signature)) {
+            runClasses.set(signature, createChildClass(baseClass, `run-${runClasses.size + 1}`));
+        }
+        return runClasses.get(signature) as string;
+    }
+
+    // 文字範囲1つ分の要素（Shift+Enterの改行は br、ベースと同じスタイルはテキストのまま）
+    function createRuns(text: string, segment: TextSegment): ElementData[] {
+        const isBaseStyle = getSegmentSignature(segment) === baseSignature;
+        return text.split(LINE_SEPARATOR).flatMap((line, index) => {
+            const runs: ElementData[] = index > 0 ? [{ tag: 'br', children: [] }] : [];
+            if (!line) return runs;
+
+            if (isBaseStyle && !segment.hyperlink) {
+                runs.push({ tag: '#text', text: line, children: [] });
+            } else {
+                const runTag = getRunTag(segment, base);
+                runs.push({
+                    tag: runTag,
+                    classes: isBaseStyle ? [] : [getRunClass(segment)],
+                    attributes: segment.hyperlink
+                        ? { href: segment.hyperlink.type === 'URL' ? segment.hyperlink.value : '#' }
+                        : {},
+                    children: [],
+                    text: line,
+                    _text: { node, kind: 'run', segment }
+                });
+            }
+            return runs;
+        });
+    }
+
+    // 段落（改行）ごとに文字範囲を分割
+    // 段落のリスト設定は、その段落の最初の文字を含む文字範囲から取得する
+    const paragraphs: Paragraph[] = [{ listType: undefined, runs: [] }];
+    segments.forEach(segment => {
+        const lines = segment.characters.split('\n');
+        lines.forEach((text, index) => {
+            if (index > 0) {
+                paragraphs.push({ listType: undefined, runs: [] });
+            }
+            const paragraph = paragraphs[paragraphs.length - 1];
+            if (paragraph.listType === undefined && (text || index < lines.length - 1)) {
+                paragraph.listType = segment.listOptions.type;
+            }
+            paragraph.runs.push(...createRuns(text, segment));
+        });
+    });
+    while (paragraphs.length > 1 && paragraphs[paragraphs.length - 1].runs.length === 0) {
+        paragraphs.pop();
+    }
+
+    const hasList = paragraphs.some(paragraph => paragraph.listType && paragraph.listType !== 'NONE');
+    const useParagraphs = node.paragraphSpacing > 0 && paragraphs.length > 1;
+    const children: ElementData[] = [];
+
+    paragraphs.forEach((paragraph, index) => {
+        const previous = paragraphs[index - 1];
+
+        // 連続するリストの段落は同じ ul/ol にまとめる
+        if (paragraph.listType && paragraph.listType !== 'NONE') {
+            const listTag = paragraph.listType === 'ORDERED' ? 'ol' : 'ul';
+            const item: ElementData = { tag: 'li', children: paragraph.runs, inline: true };
+            const list = children[children.length - 1];
+            if (previous && previous.listType === paragraph.listType && list?.tag === listTag) {
+                list.children.push(item);
+            } else {
+                children.push({
+                    tag: listTag,
+                    classes: [createChildClass(baseClass, 'list')],
+                    children: [item],
+                    _text: { node, kind: 'list' }
+                });
+            }
+            return;
+        }
+
+        // 段落間隔がある場合は段落ごとに p、ない場合は br で区切る
+        if (useParagraphs) {
+            children.push({
+                tag: 'p',
+                classes: [createChildClass(baseClass, 'paragraph')],
+                children: paragraph.runs,
+                inline: true,
+                _text: { node, kind: 'paragraph' }
+            });
+            return;
+        }
+        if (previous && (!previous.listType || previous.listType === 'NONE')) {
+            children.push({ tag: 'br', children: [] });
+        }
+        children.push(...paragraph.runs);
+    });
+
+    const hasBlockChildren = hasList || useParagraphs;
+    return {
+        tag: hasBlockChildren && PHRASING_TAGS.includes(tag) ? 'div' : tag,
+        children,
+        inline: !hasBlockChildren
+    };
+}
@@ -1,5 +1,12 @@
-import { ElementData } from './types';
+import { ComponentInfo, ElementData, ElementStyle, RichTextPart, StyleOptions, StyleSheet, TextSegment } from './types';
 import { isTextNode } from './html-generator';
+import { formatBackgroundLayer, formatBlendMode, formatSolidPaint, isVisiblePaint } from './paint';
+import { formatEffects } from './effects';
+import { getDominantSegment } from './rich-text';
+import { convertDeclarationUnits } from './units';
+import { getIndentUnit, isHookClass } from './settings';
+import { findEffectToken, findFillToken, findTextMixin, findTextVariable, TextVariableField } from './tokens';
+import { toOutputTagName } from './html-serializer';
 
 /**
  * Figmaのノードが自動レイアウト（Auto Layout）を持っているかを判定するタイプガード
@@ -22,24 +29,43 @@ function isAutoLayoutNode(node: SceneNode): node is SceneNode & AutoLayoutMixin
 }
 
 /**
- * レイアウトモードに基づいてwidth設定を決定する戦略パターン
- * - HORIZONTAL: 水平方向のレイアウトの場合の幅設定
- * - VERTICAL: 垂直方向のレイアウトの場合の幅設定
+ * グリッドの行・列のサイズ（plugin-typings に未定義のため必要な部分のみ定義）
  */
-const widthStrategies: Record<'HORIZONTAL' | 'VERTICAL', (node: SceneNode & AutoLayoutMixin & LayoutMixin) => string> = {
-    HORIZONTAL: (node) => {
-        if (node.primaryAxisSizingMode === 'AUTO') return 'width: fit-content';
-        if ('layoutSizingHorizontal' in node && (node as any).layoutSizingHorizontal === 'FILL') return 'width: 100%';
-        if (node.layoutAlign === 'STRETCH') return 'width: 100%';
-        return `width: ${Math.round(node.width)}px`;
-    },
-    VERTICAL: (node) => {
-        if (node.counterAxisSizingMode === 'AUTO') return 'width: fit-content';
-        if ('layoutSizingHorizontal' in node && (node as any).layoutSizingHorizontal === 'FILL') return 'width: 100%';
-        if (node.layoutAlign === 'STRETCH') return 'width: 100%';
-        return `width: ${Math.round(node.width)}px`;
-    }
-};
+interface GridTrackSize {
+    type: 'FLEX' | 'FIXED' | 'HUG';
+    value?: number;
+}
+
+/**
+ * グリッドレイアウト（layoutMode: 'GRID'）のノードのプロパティ
+ */
+interface GridLayoutProperties {
+    gridRowCount: number;
+    gridColumnCount: number;
+    gridRowGap: number;
+    gridColumnGap: number;
+    gridRowSizes?: ReadonlyArray<GridTrackSize>;
+    gridColumnSizes?: ReadonlyArray<GridTrackSize>;
+}
+
+/**
+ * グリッドレイアウトの子要素のプロパティ
+ */
+interface GridChildProperties {
+    gridRowSpan?: number;
+    gridColumnSpan?: number;
+    gridChildHorizontalAlign?: 'MIN' | 'CENTER' | 'MAX' | 'AUTO';
+    gridChildVerticalAlign?: 'MIN' | 'CENTER' | 'MAX' | 'AUTO';
+}
+
+/**
+ * Figmaのノードがグリッドレイアウトを持っているかを判定するタイプガード
+ * @param node - 判定対象のFigmaノード
+ * @returns グリッドレイアウトの場合true、そうでない場合false
+ */
+function isGridLayoutNode(node: BaseNode | null): node is SceneNode & GridLayoutProperties {
+    return node !== null && 'layoutMode' in node && (node.layoutMode as string) === 'GRID';
+}
 
 // 主軸のアライメントマッピング
 const primaryAxisAlignMap: Record<AutoLayoutMixin['primaryAxisAlignItems'], string> = {
@@ -57,15 +83,111 @@ const counterAxisAlignMap: Record<AutoLayoutMixin['counterAxisAlignItems'], stri
     BASELINE: 'align-items: baseline'
 };
 
+// グリッドの子要素の配置のマッピング
+const gridChildAlignMap: Record<'MIN' | 'CENTER' | 'MAX', string> = {
+    MIN: 'start',
+    CENTER: 'center',
+    MAX: 'end'
+};
+
+// 大文字・小文字の変換のマッピング
+const textCaseMap: Record<TextCase, string> = {
+    ORIGINAL: 'text-transform: none',
+    UPPER: 'text-transform: uppercase',
+    LOWER: 'text-transform: lowercase',
+    TITLE: 'text-transform: capitalize',
+    SMALL_CAPS: 'font-variant: small-caps',
+    SMALL_CAPS_FORCED: 'font-variant: all-small-caps'
+};
+
 // レイアウトアラインのマッピング
 const layoutAlignMap: Record<AutoLayoutChildrenMixin['layoutAlign'], string> = {
     MIN: 'align-self: flex-start',
     CENTER: 'align-self: center',
     MAX: 'align-self: flex-end',
-    STRETCH: '',　// stretchをつけると左右センタリングが効かなくなるので、ここでは設定しない
-    INHERIT: 'align-self: inherit'
+    STRETCH: '', // 親に合わせる（FILL）場合はサイズの設定で出力する
+    INHERIT: '' // 親の align-items に従うため設定しない
 };
 
+/**
+ * サイズの設定（HUG: 内容に合わせる / FILL: 親に合わせる / FIXED: 固定）
+ */
+type SizingMode = 'HUG' | 'FILL' | 'FIXED';
+
+/**
+ * ノードの軸ごとのサイズの設定を取得する
+ * @param node - Figmaノード
+ * @param axis - 軸
+ * @returns サイズの設定（設定を持たないノードは FIXED）
+ */
+function getSizingMode(node: SceneNode, axis: 'HORIZONTAL' | 'VERTICAL'): SizingMode {
+    const key = axis === 'HORIZONTAL' ? 'layoutSizingHorizontal' : 'layoutSizingVertical';
+    return key in node ? (node as SceneNode & LayoutMixin)[key] : 'FIXED';
+}
+
+/**
+ * 親の自動レイアウト（Flexbox）の方向を取得する
+ * @param node - Figmaノード
+ * @returns 親の自動レイアウトの方向（親が自動レイアウトでない場合や絶対位置の子の場合はundefined）
+ */
+function getParentFlexDirection(node: SceneNode): 'HORIZONTAL' | 'VERTICAL' | undefined {
+    const parent = node.parent;
+    if (!parent || !('layoutMode' in parent)) return undefined;
+    if (parent.layoutMode !== 'HORIZONTAL' && parent.layoutMode !== 'VERTICAL') return undefined;
+    if ('layoutPositioning' in node && node.layoutPositioning === 'ABSOLUTE') return undefined;
+    return parent.layoutMode;
+}
+
+/**
+ * 幅と高さのスタイルを設定に追加する
+ * - FIXED: px の固定サイズ（自動レイアウトの主軸では縮まないように flex-shrink: 0）
+ * - HUG: fit-content
+ * - FILL: 自動レイアウトの主軸では flex: 1 1 0、交差軸では align-self: stretch（最大サイズがある場合は 100%）
+ *   グリッドレイアウトの子はセルに合わせるため出力しない
+ * - 幅が自動のテキストは折り返さない
+ * 親から切り離して出力する場合は親の自動レイアウトを参照せず、FILL のサイズも出力しない（配置先の要素で決まるため）
+ * @param node - Figmaノード
+ * @param styles - 追加先のスタイル配列
+ * @param detached - 親から切り離して出力するかどうか
+ */
+function addSizingStyles(node: SceneNode & DimensionAndPositionMixin, styles: string[], detached = false): void {
+    const direction = detached ? undefined : getParentFlexDirection(node);
+    const isGridChild = isGridLayoutNode(node.parent) && !('layoutPositioning' in node && node.layoutPositioning === 'ABSOLUTE');
+    const isImage = node.type === 'RECTANGLE' && Array.isArray(node.fills) && node.fills.length > 0 && node.fills[0].type === 'IMAGE';
+    const axes = [
+        { axis: 'HORIZONTAL', property: 'width', size: node.width, maxSize: 'maxWidth' in node ? node.maxWidth : null },
+        { axis: 'VERTICAL', property: 'height', size: node.height, maxSize: 'maxHeight' in node ? node.maxHeight : null }
+    ] as const;
+
+    axes.forEach(({ axis, property, size, maxSize }) => {
+        const mode = getSizingMode(node, axis);
+        const isMainAxis = direction === axis;
+
+        if (mode === 'FILL' && direction) {
+            if (isMainAxis) styles.push('flex: 1 1 0');
+            // stretch では最大サイズを超えたときに中央揃えが効かないため、その場合は 100% にする
+            else styles.push(maxSize ? `${property}: 100%` : 'align-self: stretch');
+        } else if (mode === 'FILL') {
+            if (!isGridChild && !detached) styles.push(`${property}: 100%`);
+        } else if (mode === 'HUG') {
+            styles.push(`${property}: fit-content`);
+        } else if (property === 'height' && isImage) {
+            // 画像は縦横比を保つため高さを自動にする
+            styles.push('height: auto');
+        } else {
+            styles.push(`${property}: ${Math.round(size)}px`);
+            if (isMainAxis) styles.push('flex-shrink: 0');
+        }
+    });
+
+    if (node.type === 'TEXT' && node.textAutoResize === 'WIDTH_AND_HEIGHT') {
+        styles.push('white-space: nowrap');
+    }
+    if ('layoutAlign' in node && direction && layoutAlignMap[node.layoutAlign]) {
+        styles.push(layoutAlignMap[node.layoutAlign]);
+    }
+}
+
 /**
  * サイズの制約（min-width, max-width, min-height, max-height）を設定に追加する
  * @param node - Figmaノード
@@ -88,51 +210,203 @@ function addSizeConstraints(node: SceneNode, styles: string[]): void {
 }
 
 /**
- * Auto Layout（Flex box）のスタイルを設定に追加する
- * - display: flex
- * - flex-direction
- * - flex-wrap
- * - アライメント設定
- * - gap
- * - padding
- * @param node - Figmaノード
+ * グリッドの行・列のサイズをCSSの値に変換する
+ * @param sizes - 行・列ごとのサイズ
+ * @param count - 行・列の数（サイズの指定がない場合に使用）
+ * @returns grid-template-columns / grid-template-rows の値
+ */
+function formatGridTemplate(sizes: ReadonlyArray<GridTrackSize> | undefined, count: number): string {
+    const tracks = sizes && sizes.length > 0
+        ? sizes.map(size => {
+            if (size.type === 'FIXED') return `${Math.round(size.value || 0)}px`;
+            if (size.type === 'HUG') return 'auto';
+            return `${size.value || 1}fr`;
+        })
+        : Array(Math.max(count, 1)).fill('1fr');
+
+    return tracks.length > 1 && tracks.every(track => track === tracks[0])
+        ? `repeat(${tracks.length}, ${tracks[0]})`
+        : tracks.join(' ');
+}
+
+/**
+ * グリッドレイアウトのスタイルを設定に追加する
+ * - display: grid
+ * - grid-template-columns / grid-template-rows
+ * - gap（行と列で異なる場合は "行 列"）
+ * @param node - グリッドレイアウトのノード
  * @param styles - 追加先のスタイル配列
  */
-function addAutoLayoutStyles(node: SceneNode, styles: string[]): void {
-    if (!isAutoLayoutNode(node)) return;
+function addGridLayoutStyles(node: SceneNode & GridLayoutProperties, styles: string[]): void {
+    styles.push('display: grid');
+    styles.push(`grid-template-columns: ${formatGridTemplate(node.gridColumnSizes, node.gridColumnCount)}`);
+    styles.push(`grid-template-rows: ${formatGridTemplate(node.gridRowSizes, node.gridRowCount)}`);
 
-    const layoutMode = node.layoutMode;
-    styles.push('display: flex');
-    styles.push(`flex-direction: ${layoutMode === 'HORIZONTAL' ? 'row' : 'column'}`);
+    if (node.gridRowGap > 0 || node.gridColumnGap > 0) {
+        styles.push(node.gridRowGap === node.gridColumnGap
+            ? `gap: ${node.gridRowGap}px`
+            : `gap: ${node.gridRowGap}px ${node.gridColumnGap}px`);
+    }
+}
 
-    // Wrap設定
-    if ('layoutWrap' in node && node.layoutWrap) {
-        const wrapMap = { WRAP: 'wrap', NO_WRAP: 'nowrap' };
-        styles.push(`flex-wrap: ${wrapMap[node.layoutWrap]}`);
+/**
+ * Flex box の間隔のスタイルを設定に追加する
+ * 折り返す場合に行間（counterAxisSpacing）が異なるときは row-gap / column-gap に分ける
+ * @param node - 自動レイアウトのノード
+ * @param styles - 追加先のスタイル配列
+ */
+function addFlexGapStyles(node: SceneNode & AutoLayoutMixin, styles: string[]): void {
+    const crossSpacing = node.layoutWrap === 'WRAP' ? node.counterAxisSpacing : null;
+    if (crossSpacing === null || crossSpacing === node.itemSpacing) {
+        if (node.itemSpacing > 0) {
+            styles.push(`gap: ${node.itemSpacing}px`);
+        }
+        return;
     }
 
-    // アライメント設定
-    if (node.primaryAxisAlignItems in primaryAxisAlignMap) {
-        styles.push(primaryAxisAlignMap[node.primaryAxisAlignItems]);
+    const [rowGap, columnGap] = node.layoutMode === 'HORIZONTAL'
+        ? [crossSpacing, node.itemSpacing]
+        : [node.itemSpacing, crossSpacing];
+    styles.push(`row-gap: ${Math.max(rowGap, 0)}px`);
+    styles.push(`column-gap: ${Math.max(columnGap, 0)}px`);
+}
+
+/**
+ * フレームのレイアウトグリッド（列・行）のうち、表示中のものを取得する
+ * 自動レイアウトのフレームはレイアウトが決まっているため対象外
+ * @param node - Figmaノード
+ * @param pattern - 列（COLUMNS）または行（ROWS）
+ * @returns レイアウトグリッド（ない場合はundefined）
+ */
+function getLayoutGrid(node: BaseNode | null, pattern: RowsColsLayoutGrid['pattern']): RowsColsLayoutGrid | undefined {
+    if (!node || !('layoutGrids' in node)) return undefined;
+    if ('layoutMode' in node && node.layoutMode !== 'NONE') return undefined;
+    return node.layoutGrids.find((grid): grid is RowsColsLayoutGrid => grid.pattern === pattern && grid.visible !== false);
+}
+
+/**
+ * レイアウトグリッドの段の位置とサイズを計算する
+ * @param grid - レイアウトグリッド
+ * @param size - フレームの幅（列）または高さ（行）
+ * @returns 段の数、最初の段の位置、段のサイズ
+ */
+function measureLayoutGrid(grid: RowsColsLayoutGrid, size: number): { count: number, start: number, section: number } {
+    const offset = grid.offset || 0;
+    if (grid.alignment === 'STRETCH') {
+        const count = Number.isFinite(grid.count) ? Math.max(grid.count, 1) : 1;
+        return { count, start: offset, section: (size - offset * 2 - grid.gutterSize * (count - 1)) / count };
     }
-    if (node.counterAxisAlignItems in counterAxisAlignMap) {
-        styles.push(counterAxisAlignMap[node.counterAxisAlignItems]);
+
+    const section = grid.sectionSize || 0;
+    const count = Number.isFinite(grid.count)
+        ? Math.max(grid.count, 1)
+        : Math.max(Math.floor((size - offset * 2 + grid.gutterSize) / (section + grid.gutterSize)), 1);
+    const total = section * count + grid.gutterSize * (count - 1);
+    const start = grid.alignment === 'MIN' ? offset
+        : grid.alignment === 'MAX' ? size - offset - total
+            : (size - total) / 2;
+    return { count, start, section };
+}
+
+/**
+ * レイアウトグリッドをCSS Gridの段の指定に変換する
+ * @param grid - レイアウトグリッド
+ * @returns grid-template-columns / grid-template-rows の値
+ */
+function formatLayoutGridTemplate(grid: RowsColsLayoutGrid): string {
+    if (grid.alignment === 'STRETCH') {
+        return `repeat(${Number.isFinite(grid.count) ? grid.count : 'auto-fill'}, 1fr)`;
     }
+    return `repeat(${Number.isFinite(grid.count) ? grid.count : 'auto-fill'}, ${Math.round(grid.sectionSize || 0)}px)`;
+}
 
-    // Flex関連のプロパティ
-    if ('layoutGrow' in node && typeof node.layoutGrow === 'number' && node.layoutGrow !== 0) {
-        styles.push(`flex-grow: ${node.layoutGrow}`);
+/**
+ * フレームのレイアウトグリッド（列・行）をCSS Gridのコンテナとして設定に追加する
+ * - 段の数とサイズ: grid-template-columns / grid-template-rows
+ * - 溝: column-gap / row-gap
+ * - 端の余白: padding、左右・上下寄せ: justify-content / align-content
+ * @param node - Figmaノード
+ * @param styles - 追加先のスタイル配列
+ * @returns レイアウトグリッドを設定した場合true
+ */
+function addLayoutGridStyles(node: SceneNode, styles: string[]): boolean {
+    const columns = getLayoutGrid(node, 'COLUMNS');
+    const rows = getLayoutGrid(node, 'ROWS');
+    if (!columns && !rows) return false;
+
+    // 上・右・下・左の余白
+    const padding = [0, 0, 0, 0];
+    const setOffset = (grid: RowsColsLayoutGrid, startSide: number, endSide: number) => {
+        const offset = Math.round(grid.offset || 0);
+        if (grid.alignment === 'STRETCH' || grid.alignment === 'MIN') padding[startSide] = offset;
+        if (grid.alignment === 'STRETCH' || grid.alignment === 'MAX') padding[endSide] = offset;
+    };
+
+    styles.push('display: grid');
+    if (columns) {
+        styles.push(`grid-template-columns: ${formatLayoutGridTemplate(columns)}`);
+        if (columns.gutterSize > 0) styles.push(`column-gap: ${Math.round(columns.gutterSize)}px`);
+        if (columns.alignment !== 'STRETCH') styles.push(`justify-content: ${gridChildAlignMap[columns.alignment]}`);
+        setOffset(columns, 3, 1);
     }
-    if ('layoutShrink' in node && typeof node.layoutShrink === 'number') {
-        styles.push(`flex-shrink: ${node.layoutShrink}`);
+    if (rows) {
+        styles.push(`grid-template-rows: ${formatLayoutGridTemplate(rows)}`);
+        if (rows.gutterSize > 0) styles.push(`row-gap: ${Math.round(rows.gutterSize)}px`);
+        if (rows.alignment !== 'STRETCH') styles.push(`align-content: ${gridChildAlignMap[rows.alignment]}`);
+        setOffset(rows, 0, 2);
     }
-    if ('layoutAlign' in node && node.layoutAlign in layoutAlignMap) {
-        styles.push(layoutAlignMap[node.layoutAlign as keyof typeof layoutAlignMap]);
+    if (padding.some(value => value > 0)) {
+        styles.push(`padding: ${padding.map(value => `${value}px`).join(' ')}`);
+    }
+    return true;
+}
+
+/**
+ * Auto Layout（Flex box / Grid）のスタイルを設定に追加する
+ * - display: flex（グリッドレイアウトの場合は display: grid）
+ * - flex-direction
+ * - flex-wrap / align-content
+ * - アライメント設定
+ * - gap（折り返す場合は row-gap / column-gap）
+ * - padding
+ * 自動レイアウトのないフレームで layoutGrids が有効な場合は、レイアウトグリッドをCSS Gridにする
+ * @param node - Figmaノード
+ * @param styles - 追加先のスタイル配列
+ * @param options - スタイル生成のオプション
+ */
+function addAutoLayoutStyles(node: SceneNode, styles: string[], options: StyleOptions = {}): void {
+    if (!isAutoLayoutNode(node)) return;
+    if (node.layoutMode === 'NONE' && options.layoutGrids && addLayoutGridStyles(node, styles)) return;
+
+    const layoutMode = node.layoutMode;
+    const isGrid = isGridLayoutNode(node);
+    if (isGrid) {
+        addGridLayoutStyles(node, styles);
+    } else {
+        styles.push('display: flex');
+        styles.push(`flex-direction: ${layoutMode === 'HORIZONTAL' ? 'row' : 'column'}`);
+
+        // Wrap設定
+        if ('layoutWrap' in node && node.layoutWrap) {
+            const wrapMap = { WRAP: 'wrap', NO_WRAP: 'nowrap' };
+            styles.push(`flex-wrap: ${wrapMap[node.layoutWrap]}`);
+            if (node.layoutWrap === 'WRAP' && node.counterAxisAlignContent === 'SPACE_BETWEEN') {
+                styles.push('align-content: space-between');
+            }
+        }
+
+        // アライメント設定
+        if (node.primaryAxisAlignItems in primaryAxisAlignMap) {
+            styles.push(primaryAxisAlignMap[node.primaryAxisAlignItems]);
+        }
+        if (node.counterAxisAlignItems in counterAxisAlignMap) {
+            styles.push(counterAxisAlignMap[node.counterAxisAlignItems]);
+        }
     }
 
     // Gap と Padding
-    if (node.itemSpacing > 0) {
-        styles.push(`gap: ${node.itemSpacing}px`);
+    if (!isGrid) {
+        addFlexGapStyles(node, styles);
     }
     const padding = {
         top: node.paddingTop,
@@ -145,6 +419,77 @@ function addAutoLayoutStyles(node: SceneNode, styles: string[]): void {
     }
 }
 
+/**
+ * グリッドの子要素のスタイルを設定に追加する
+ * - グリッドレイアウトの子: 複数の行・列にまたがる場合の span と、セル内の配置
+ * - レイアウトグリッドを持つフレームの子（layoutGrids が有効な場合）: 位置から求めた段の範囲（幅は段に合わせるため削除）
+ * @param node - Figmaノード
+ * @param styles - 追加先のスタイル配列
+ * @param options - スタイル生成のオプション
+ */
+function addGridChildStyles(node: SceneNode, styles: string[], options: StyleOptions = {}): void {
+    const parent = node.parent;
+
+    if (isGridLayoutNode(parent)) {
+        const child = node as SceneNode & GridChildProperties;
+        if ((child.gridColumnSpan || 1) > 1) styles.push(`grid-column: span ${child.gridColumnSpan}`);
+        if ((child.gridRowSpan || 1) > 1) styles.push(`grid-row: span ${child.gridRowSpan}`);
+        if (child.gridChildHorizontalAlign && child.gridChildHorizontalAlign !== 'AUTO') {
+            styles.push(`justify-self: ${gridChildAlignMap[child.gridChildHorizontalAlign]}`);
+        }
+        if (child.gridChildVerticalAlign && child.gridChildVerticalAlign !== 'AUTO') {
+            styles.push(`align-self: ${gridChildAlignMap[child.gridChildVerticalAlign]}`);
+        }
+        return;
+    }
+
+    if (!options.layoutGrids || !parent || !('width' in parent)) return;
+
+    const placements = [
+        { grid: getLayoutGrid(parent, 'COLUMNS'), size: parent.width, position: node.x, extent: node.width, style: 'grid-column' },
+        { grid: getLayoutGrid(parent, 'ROWS'), size: parent.height, position: node.y, extent: node.height, style: 'grid-row' }
+    ];
+    placements.forEach(({ grid, size, position, extent, style }) => {
+        if (!grid) return;
+
+        const { count, start, section } = measureLayoutGrid(grid, size);
+        const step = section + grid.gutterSize;
+        const first = Math.min(Math.max(Math.round((position - start) / step), 0), count - 1);
+        const last = Math.min(Math.max(Math.round((position + extent - start + grid.gutterSize) / step), first + 1), count);
+        styles.push(`${style}: ${first + 1} / ${last + 1}`);
+
+        // 列の範囲で幅が決まるため width は出力しない
+        if (style === 'grid-column') {
+            const index = styles.findIndex(declaration => declaration.startsWith('width:'));
+            if (index >= 0) styles.splice(index, 1);
+        }
+    });
+}
+
+/**
+ * 文字間隔をCSSの値に変換する
+ * @param letterSpacing - Figmaの文字間隔
+ * @returns letter-spacing のスタイル（0の場合はundefined）
+ */
+function formatLetterSpacing(letterSpacing: LetterSpacing): string | undefined {
+    if (letterSpacing.value === 0) return undefined;
+    return letterSpacing.unit === 'PERCENT'
+        ? `letter-spacing: ${Math.round(letterSpacing.value) / 100}em`
+        : `letter-spacing: ${letterSpacing.value}px`;
+}
+
+/**
+ * 行の高さをCSSの値に変換する
+ * @param lineHeight - Figmaの行の高さ
+ * @returns line-height のスタイル（自動の場合はundefined）
+ */
+function formatLineHeight(lineHeight: LineHeight): string | undefined {
+    if (lineHeight.unit === 'AUTO') return undefined;
+    return lineHeight.unit === 'PERCENT'
+        ? `line-height: ${Math.round(lineHeight.value) / 100}`
+        : `line-height: ${lineHeight.value}px`;
+}
+
 /**
  * テキストノードのスタイルを設定に追加する
  * - フォントサイズ
@@ -154,200 +499,975 @@ function addAutoLayoutStyles(node: SceneNode, styles: string[]): void {
  * - 行の高さ
  * - テキストの配置
  * - テキストの装飾
+ * - 大文字・小文字の変換
+ * 文字範囲ごとにスタイルが異なる場合は、最も文字数の多い文字範囲をベースのスタイルとする
+ * テキストスタイルに紐づいている場合はフォント関連の代わりにmixinを参照する
  * @param node - テキストノード
  * @param styles - 追加先のスタイル配列
+ * @param options - スタイル生成のオプション
  */
-function addTextStyles(node: TextNode, styles: string[]): void {
-    // フォントスタイル
-    if (typeof node.fontSize !== 'symbol') {
-        styles.push(`font-size: ${node.fontSize}px`);
+function addTextStyles(node: TextNode, styles: string[], options: StyleOptions = {}): void {
+    const base = getDominantSegment(node);
+
+    // テキストスタイルに紐づいている場合はmixinを参照
+    const mixin = findTextMixin(base.textStyleId, options.tokens);
+    if (mixin) {
+        styles.push(`@include ${mixin.name}`);
+    } else {
+        addFontStyles(node, base, styles, options);
     }
-    if (typeof node.fontWeight !== 'symbol') {
-        styles.push(`font-weight: ${node.fontWeight}`);
+
+    if (node.textAlignHorizontal && typeof node.textAlignHorizontal !== 'symbol') {
+        styles.push(`text-align: ${node.textAlignHorizontal.toLowerCase()}`);
     }
-    if (typeof node.fontName !== 'symbol' && node.fontName?.family) {
-        styles.push(`font-family: "${node.fontName.family}"`);
+    if (!mixin) {
+        styles.push(`text-decoration: ${base.textDecoration.toLowerCase()}`);
     }
+    if (base.textCase !== 'ORIGINAL') {
+        styles.push(textCaseMap[base.textCase]);
+    }
+}
+
+/**
+ * フォントに関するスタイルを設定に追加する
+ * Variableに紐づいている値はSCSS変数を参照する
+ * @param node - テキストノード
+ * @param base - ベースとなる文字範囲のスタイル
+ * @param styles - 追加先のスタイル配列
+ * @param options - スタイル生成のオプション
+ */
+function addFontStyles(node: TextNode, base: TextSegment, styles: string[], options: StyleOptions): void {
+    const variable = (field: TextVariableField) => findTextVariable(node, field, options.tokens);
+
+    // フォントスタイル
+    styles.push(`font-size: ${variable('fontSize') || `${base.fontSize}px`}`);
+    styles.push(`font-weight: ${variable('fontWeight') || base.fontWeight}`);
+    styles.push(`font-family: ${variable('fontFamily') || `"${base.fontName.family}"`}`);
 
     // レタースペーシング
-    if (typeof node.letterSpacing !== 'symbol') {
-        const spacing = typeof node.letterSpacing === 'object' ? node.letterSpacing.value : node.letterSpacing;
-        if (spacing !== 0) {
-            styles.push(`letter-spacing: ${spacing}px`);
+    const letterSpacing = formatLetterSpacing(base.letterSpacing);
+    if (letterSpacing) {
+        styles.push(variable('letterSpacing') ? `letter-spacing: ${variable('letterSpacing')}` : letterSpacing);
+    }
+
+    // 行の高さ
+    const lineHeight = formatLineHeight(base.lineHeight);
+    if (lineHeight) {
+        styles.push(variable('lineHeight') ? `line-height: ${variable('lineHeight')}` : lineHeight);
+    }
+}
+
+/**
+ * リッチテキストの文字範囲のスタイルを、ベースのスタイルとの差分だけ設定に追加する
+ * @param segment - 文字範囲のスタイル
+ * @param base - ベースとなる文字範囲のスタイル
+ * @param styles - 追加先のスタイル配列
+ * @param options - スタイル生成のオプション
+ */
+function addTextRunStyles(segment: TextSegment, base: TextSegment, styles: string[], options: StyleOptions): void {
+    const differs = <K extends keyof TextSegment>(key: K) => JSON.stringify(segment[key]) !== JSON.stringify(base[key]);
+
+    const mixin = differs('textStyleId') ? findTextMixin(segment.textStyleId, options.tokens) : undefined;
+    if (mixin) {
+        styles.push(`@include ${mixin.name}`);
+    } else {
+        if (differs('fontSize')) {
+            styles.push(`font-size: ${segment.fontSize}px`);
+        }
+        if (differs('fontWeight')) {
+            styles.push(`font-weight: ${segment.fontWeight}`);
+        }
+        if (segment.fontName.family !== base.fontName.family) {
+            styles.push(`font-family: "${segment.fontName.family}"`);
+        }
+        if (differs('letterSpacing')) {
+            styles.push(formatLetterSpacing(segment.letterSpacing) || 'letter-spacing: normal');
+        }
+        if (differs('lineHeight')) {
+            styles.push(formatLineHeight(segment.lineHeight) || 'line-height: normal');
         }
     }
 
-    // そ他のテキストプロパティ
-    if (node.lineHeight && typeof node.lineHeight === 'object' && 'value' in node.lineHeight) {
-        styles.push(`line-height: ${node.lineHeight.value}px`);
+    const isItalic = (style: string) => /italic|oblique/i.test(style);
+    if (isItalic(segment.fontName.style) !== isItalic(base.fontName.style)) {
+        styles.push(`font-style: ${isItalic(segment.fontName.style) ? 'italic' : 'normal'}`);
     }
-    if (node.textAlignHorizontal && typeof node.textAlignHorizontal !== 'symbol') {
-        styles.push(`text-align: ${node.textAlignHorizontal.toLowerCase()}`);
+    if (differs('textDecoration')) {
+        styles.push(`text-decoration: ${segment.textDecoration.toLowerCase()}`);
     }
-    if (node.textDecoration && typeof node.textDecoration !== 'symbol') {
-        styles.push(`text-decoration: ${node.textDecoration.toLowerCase()}`);
+    if (differs('textCase')) {
+        styles.push(textCaseMap[segment.textCase]);
     }
+    if (differs('fills') || differs('fillStyleId')) {
+        const fill = segment.fills.find((paint): paint is SolidPaint => paint.type === 'SOLID' && isVisiblePaint(paint));
+        if (fill) {
+            styles.push(`color: ${findFillToken(segment.fillStyleId, fill, options.tokens) || formatSolidPaint(fill)}`);
+        }
+    }
+}
+
+/**
+ * リッチテキストから生成された要素のスタイルを生成する
+ * - 文字範囲: ベースとの差分
+ * - 段落: 段落間隔（隣接する段落の margin-top）
+ * - リスト: マーカーとインデント
+ * @param element - HTML要素のデータ構造
+ * @param part - リッチテキストの要素の情報
+ * @param options - スタイル生成のオプション
+ * @returns 生成されたスタイルの配列
+ */
+function generateRichTextStyles(element: ElementData, part: RichTextPart, options: StyleOptions = {}): string[] {
+    const styles: string[] = [];
+
+    if (part.kind === 'paragraph') {
+        styles.push(`margin-top: ${Math.round(part.node.paragraphSpacing)}px`);
+    } else if (part.kind === 'list') {
+        styles.push(`list-style: ${element.tag === 'ol' ? 'decimal' : 'disc'}`);
+        styles.push('padding-left: 1.5em');
+    } else if (part.segment) {
+        addTextRunStyles(part.segment, getDominantSegment(part.node), styles, options);
+    }
+
+    return styles;
 }
 
 /**
  * 色に関するスタイルを設定に追加する
- * - テキストノードの場合: color
- * - その他のノードの場合: background-color
+ * - テキストノードの場合: color（グラデーションは background-clip: text）
+ * - その他のノードの場合: background-color または重ねた background
  * @param node - Figmaノード
  * @param styles - 追加先のスタイル配列
+ * @param options - スタイル生成のオプション
  */
-function addColorStyles(node: SceneNode, styles: string[]): void {
-    if (!('fills' in node) || !Array.isArray(node.fills) || node.fills.length === 0) return;
+function addColorStyles(node: SceneNode, styles: string[], options: StyleOptions = {}): void {
+    if (!('fills' in node) || !('fillStyleId' in node)) return;
 
-    const fill = node.fills[0] as SolidPaint;
-    if (fill.type !== 'SOLID' || !fill.visible) return;
+    // 文字範囲ごとに塗りが異なるテキストは、ベースとなる文字範囲の塗りを使う
+    const base = isTextNode(node) && !Array.isArray(node.fills) ? getDominantSegment(node) : undefined;
+    const paints = base ? base.fills : node.fills;
+    const styleId = base ? base.fillStyleId : typeof node.fillStyleId === 'string' ? node.fillStyleId : '';
+    if (!Array.isArray(paints)) return;
 
-    const { r, g, b } = fill.color;
-    const opacity = fill.opacity !== undefined ? fill.opacity : 1;
-    const rgba = `rgba(${Math.round(r * 255)}, ${Math.round(g * 255)}, ${Math.round(b * 255)}, ${opacity})`;
+    // Figmaは下のレイヤーから順に並ぶため、CSSの順（上のレイヤーから）に並べ替える
+    const fills = (paints as Paint[])
+        .filter(fill => isVisiblePaint(fill) && fill.type !== 'IMAGE' && fill.type !== 'VIDEO')
+        .reverse();
+    if (fills.length === 0) return;
+
+    // 単色1つの場合は color / background-color（スタイルやVariableに紐づいている場合はSCSS変数を参照）
+    if (fills.length === 1 && fills[0].type === 'SOLID') {
+        const color = findFillToken(styleId, fills[0], options.tokens) || formatSolidPaint(fills[0]);
+        styles.push(isTextNode(node) ? `color: ${color}` : `background-color: ${color}`);
+        return;
+    }
+
+    const layers = fills
+        .map((fill, index) => formatBackgroundLayer(fill, node.width, node.height, index === fills.length - 1))
+        .filter((layer): layer is string => Boolean(layer));
 
     if (isTextNode(node)) {
-        styles.push(`color: ${rgba}`);
-    } else {
-        styles.push(`background-color: ${rgba}`);
+        // テキストのグラデーションは背景をテキストで切り抜いて表現
+        styles.push(`background: ${layers.join(', ')}`);
+        styles.push('-webkit-background-clip: text');
+        styles.push('background-clip: text');
+        styles.push('color: transparent');
+        return;
+    }
+
+    styles.push(`background: ${layers.join(', ')}`);
+
+    const blendModes = fills.map(fill => formatBlendMode(fill.blendMode) || 'normal');
+    if (blendModes.some(mode => mode !== 'normal')) {
+        styles.push(`background-blend-mode: ${blendModes.join(', ')}`);
+    }
+}
+
+/**
+ * 書き出した背景画像のスタイルを設定に追加する
+ * - 画像の塗りの拡大縮小モードから background-size（FILL/CROP: cover、FIT: contain、TILE: 繰り返し）
+ * - 重ねた background がある場合は一番上の層として追加する
+ * @param node - Figmaノード
+ * @param path - 背景画像のパス
+ * @param styles - 追加先のスタイル配列
+ */
+function addBackgroundImageStyles(node: SceneNode, path: string, styles: string[]): void {
+    const fill = 'fills' in node && Array.isArray(node.fills)
+        ? (node.fills as Paint[]).filter((paint): paint is ImagePaint => paint.type === 'IMAGE' && isVisiblePaint(paint)).pop()
+        : undefined;
+    const isTile = fill?.scaleMode === 'TILE';
+    const size = fill?.scaleMode === 'FIT' ? 'contain' : 'cover';
+
+    const index = styles.findIndex(style => style.startsWith('background: '));
+    if (index !== -1) {
+        const layer = isTile ? `url(${path}) repeat` : `url(${path}) center / ${size} no-repeat`;
+        styles[index] = `background: ${layer}, ${styles[index].slice('background: '.length)}`;
+
+        const blendIndex = styles.findIndex(style => style.startsWith('background-blend-mode: '));
+        if (blendIndex !== -1) {
+            styles[blendIndex] = `background-blend-mode: normal, ${styles[blendIndex].slice('background-blend-mode: '.length)}`;
+        }
+        return;
+    }
+
+    styles.push(`background-image: url(${path})`);
+    if (isTile) {
+        styles.push('background-repeat: repeat');
+        return;
+    }
+    styles.push('background-position: center');
+    styles.push(`background-size: ${size}`);
+    styles.push('background-repeat: no-repeat');
+}
+
+/**
+ * 線に関するスタイルを設定に追加する
+ * - 内側・中央の線: border（辺ごとに太さが異なる場合は border-top など）
+ * - 外側の線: outline
+ * - 直線: border-top
+ * @param node - Figmaノード
+ * @param styles - 追加先のスタイル配列
+ */
+function addStrokeStyles(node: SceneNode, styles: string[]): void {
+    if (!('strokes' in node) || isTextNode(node)) return;
+
+    const stroke = node.strokes.find((paint): paint is SolidPaint => paint.type === 'SOLID' && isVisiblePaint(paint));
+    if (!stroke) return;
+
+    const color = formatSolidPaint(stroke);
+    const lineStyle = 'dashPattern' in node && node.dashPattern.length > 0 ? 'dashed' : 'solid';
+
+    if (node.type === 'LINE') {
+        styles.push(`border-top: ${Math.round(node.strokeWeight as number)}px ${lineStyle} ${color}`);
+        return;
+    }
+
+    if (typeof node.strokeWeight !== 'number' && 'strokeTopWeight' in node) {
+        const sides = [
+            { style: 'border-top', weight: node.strokeTopWeight },
+            { style: 'border-right', weight: node.strokeRightWeight },
+            { style: 'border-bottom', weight: node.strokeBottomWeight },
+            { style: 'border-left', weight: node.strokeLeftWeight }
+        ];
+        sides
+            .filter(({ weight }) => weight > 0)
+            .forEach(({ style, weight }) => styles.push(`${style}: ${Math.round(weight)}px ${lineStyle} ${color}`));
+        return;
+    }
+
+    const weight = typeof node.strokeWeight === 'number' ? node.strokeWeight : 0;
+    if (weight <= 0) return;
+
+    styles.push(node.strokeAlign === 'OUTSIDE'
+        ? `outline: ${Math.round(weight)}px ${lineStyle} ${color}`
+        : `border: ${Math.round(weight)}px ${lineStyle} ${color}`);
+}
+
+/**
+ * 角丸のスタイルを設定に追加する
+ * - 楕円: border-radius: 50%
+ * - 角ごとに異なる場合: 左上・右上・右下・左下の順で指定
+ * @param node - Figmaノード
+ * @param styles - 追加先のスタイル配列
+ */
+function addCornerRadiusStyles(node: SceneNode, styles: string[]): void {
+    if (node.type === 'ELLIPSE') {
+        styles.push('border-radius: 50%');
+        return;
+    }
+    if (!('cornerRadius' in node)) return;
+
+    if (typeof node.cornerRadius === 'number') {
+        if (node.cornerRadius > 0) {
+            styles.push(`border-radius: ${Math.round(node.cornerRadius)}px`);
+        }
+        return;
+    }
+
+    if ('topLeftRadius' in node) {
+        const radii = [node.topLeftRadius, node.topRightRadius, node.bottomRightRadius, node.bottomLeftRadius];
+        if (radii.some(radius => radius > 0)) {
+            styles.push(`border-radius: ${radii.map(radius => `${Math.round(radius)}px`).join(' ')}`);
+        }
+    }
+}
+
+/**
+ * エフェクト（シャドウ・ぼかし）のスタイルを設定に追加する
+ * エフェクトスタイルに紐づいている場合は box-shadow でSCSS変数を参照する
+ * @param node - Figmaノード
+ * @param styles - 追加先のスタイル配列
+ * @param options - スタイル生成のオプション
+ */
+function addEffectStyles(node: SceneNode, styles: string[], options: StyleOptions = {}): void {
+    if (!('effects' in node) || node.effects.length === 0) return;
+
+    const isText = isTextNode(node);
+    const shadowToken = isText ? undefined : findEffectToken(node, options.tokens);
+    styles.push(...formatEffects(node.effects, isText, shadowToken));
+}
+
+/**
+ * レイヤー全体の不透明度と描画モードを設定に追加する
+ * @param node - Figmaノード
+ * @param styles - 追加先のスタイル配列
+ */
+function addLayerStyles(node: SceneNode, styles: string[]): void {
+    if ('opacity' in node && node.opacity < 1) {
+        styles.push(`opacity: ${Math.round(node.opacity * 100) / 100}`);
+    }
+    if ('blendMode' in node) {
+        const blendMode = formatBlendMode(node.blendMode);
+        if (blendMode) {
+            styles.push(`mix-blend-mode: ${blendMode}`);
+        }
+    }
+}
+
+/**
+ * 制約で位置を決めるノードかどうかを判定する
+ * - 自動レイアウト内で絶対位置（layoutPositioning: 'ABSOLUTE'）の子
+ * - 自動レイアウトのないフレームの子（layoutGrids が有効でレイアウトグリッドに配置する場合を除く）
+ * コンポーネントセット内のバリアントの位置はデザイン上の並びのため対象外
+ * @param node - Figmaノード
+ * @param options - スタイル生成のオプション
+ * @returns 制約で位置を決める場合true
+ */
+function isConstraintPositioned(node: SceneNode, options: StyleOptions = {}): boolean {
+    if ('layoutPositioning' in node && node.layoutPositioning === 'ABSOLUTE') return true;
+
+    const parent = node.parent;
+    if (!parent || parent.type === 'COMPONENT_SET' || !('layoutMode' in parent) || parent.layoutMode !== 'NONE') return false;
+    return !(options.layoutGrids && (getLayoutGrid(parent, 'COLUMNS') || getLayoutGrid(parent, 'ROWS')));
+}
+
+/**
+ * 回転前の矩形の位置を求める（回転の中心は矩形の中心）
+ * Figmaの x / y は回転後の原点の位置のため、中心から逆算する
+ * @param node - Figmaノード
+ * @returns 親を基準にした回転前の矩形の左上の位置
+ */
+function getUnrotatedPosition(node: SceneNode & DimensionAndPositionMixin): { x: number, y: number } {
+    const [[a, b, tx], [c, d, ty]] = node.relativeTransform;
+    const centerX = tx + (a * node.width + b * node.height) / 2;
+    const centerY = ty + (c * node.width + d * node.height) / 2;
+    return { x: centerX - node.width / 2, y: centerY - node.height / 2 };
+}
+
+/**
+ * 回転のスタイルの値を取得する（Figmaは反時計回り、CSSは時計回りが正）
+ * @param node - Figmaノード
+ * @returns rotate() の値（回転していない場合はundefined）
+ */
+function formatRotation(node: SceneNode): string | undefined {
+    if (!('rotation' in node) || Math.abs(node.rotation) < 0.01) return undefined;
+    return `rotate(${Math.round(-node.rotation * 100) / 100}deg)`;
+}
+
+/**
+ * 比率をパーセントの値に変換する
+ * @param value - 比率（0〜1）
+ * @returns パーセントの値（小数第2位まで）
+ */
+function formatPercent(value: number): string {
+    return `${Math.round(value * 10000) / 100}%`;
+}
+
+/**
+ * 制約（constraints）に基づく絶対位置のスタイルを設定に追加する
+ * - 左/上（MIN）: left / top
+ * - 右/下（MAX）: right / bottom
+ * - 左右/上下（STRETCH）: 両端を指定し、幅/高さは出力しない
+ * - 中央（CENTER）: 50% からのずれと translate(-50%)
+ * - 拡大縮小（SCALE）: 位置とサイズを親に対するパーセント
+ * 回転している場合は回転前の矩形で位置を決め、transform: rotate() を加える
+ * @param node - Figmaノード
+ * @param styles - 追加先のスタイル配列（サイズの指定が置き換えられる）
+ */
+function addConstraintStyles(node: SceneNode, styles: string[]): void {
+    const parent = node.parent;
+    if (!parent || !('width' in parent) || !('relativeTransform' in node)) return;
+
+    const position = getUnrotatedPosition(node);
+    const constraints: Constraints = 'constraints' in node ? node.constraints : { horizontal: 'MIN', vertical: 'MIN' };
+    const axes = [
+        { constraint: constraints.horizontal, start: 'left', end: 'right', size: 'width', translate: 'translateX(-50%)', offset: position.x, extent: node.width, parentExtent: parent.width },
+        { constraint: constraints.vertical, start: 'top', end: 'bottom', size: 'height', translate: 'translateY(-50%)', offset: position.y, extent: node.height, parentExtent: parent.height }
+    ];
+    const transforms: string[] = [];
+
+    styles.push('position: absolute');
+    axes.forEach(({ constraint, start, end, size, translate, offset, extent, parentExtent }) => {
+        const sizeIndex = styles.findIndex(declaration => getPropertyName(declaration) === size);
+        const replaceSize = (declaration?: string) => {
+            if (sizeIndex < 0) return;
+            if (declaration) {
+                styles[sizeIndex] = declaration;
+            } else {
+                styles.splice(sizeIndex, 1);
+            }
+        };
+        // 親に対するパーセントの指定は固定のサイズにする
+        const fixSize = () => {
+            if (sizeIndex >= 0 && styles[sizeIndex].endsWith('%')) replaceSize(`${size}: ${Math.round(extent)}px`);
+        };
+
+        switch (constraint) {
+            case 'MAX':
+                styles.push(`${end}: ${Math.round(parentExtent - offset - extent)}px`);
+                fixSize();
+                break;
+            case 'STRETCH':
+                styles.push(`${start}: ${Math.round(offset)}px`);
+                styles.push(`${end}: ${Math.round(parentExtent - offset - extent)}px`);
+                replaceSize();
+                break;
+            case 'CENTER': {
+                const shift = Math.round(offset + extent / 2 - parentExtent / 2);
+                styles.push(`${start}: ${shift === 0 ? '50%' : `calc(50% ${shift < 0 ? '-' : '+'} ${Math.abs(shift)}px)`}`);
+                transforms.push(translate);
+                fixSize();
+                break;
+            }
+            case 'SCALE':
+                if (parentExtent > 0) {
+                    styles.push(`${start}: ${formatPercent(offset / parentExtent)}`);
+                    replaceSize(`${size}: ${formatPercent(extent / parentExtent)}`);
+                }
+                break;
+            default:
+                styles.push(`${start}: ${Math.round(offset)}px`);
+                fixSize();
+        }
+    });
+
+    const rotation = formatRotation(node);
+    if (rotation) transforms.push(rotation);
+    if (transforms.length > 0) {
+        styles.push(`transform: ${transforms.join(' ')}`);
     }
 }
 
 /**
  * Figmaノードから必要なスタイルを全て生成する
- * - サイズ設定（width, height）
+ * - サイズ設定（width, height と自動レイアウトの子としての伸縮）
  * - Auto Layoutの設定
  * - テキストスタイル
- * - 色の設定
- * - 位置の設定（absolute positioning）
+ * - 色・線・角丸・エフェクト・不透明度の設定
+ * - 位置の設定（制約に基づく absolute positioning と回転）
  * @param node - Figmaノード
+ * @param options - スタイル生成のオプション
+ * @param isGraphic - SVGや画像として書き出す要素かどうか
+ * @param detached - 親から切り離して出力するかどうか（コンポーネントのベースのルート。親に対する位置・伸縮・サイズを出力しない）
+ * @param topLevel - 書き出すフレームの直下のノードかどうか（フレーム自体は出力しないため、制約による位置を出力しない）
  * @returns 生成されたスタイルの配列
  */
-function generateNodeStyles(node: SceneNode): string[] {
+function generateNodeStyles(node: SceneNode, options: StyleOptions = {}, isGraphic = false, detached = false, topLevel = false): string[] {
     const styles: string[] = [];
 
-    // サイズの設定
+    // サイズの設定（HUG / FILL / FIXED と親の自動レイアウトに基づく）
     if ('width' in node && 'height' in node) {
-        if (isAutoLayoutNode(node)) {
-            // widthの設定
-            if (node.layoutMode === 'HORIZONTAL' || node.layoutMode === 'VERTICAL') {
-                styles.push(widthStrategies[node.layoutMode](node));
-            }
-
-            // heightの設定
-            const isAuto = node.layoutMode === 'VERTICAL'
-                ? node.primaryAxisSizingMode === 'AUTO'
-                : node.counterAxisSizingMode === 'AUTO';
-            styles.push(isAuto ? 'height: fit-content' : `height: ${Math.round(node.height)}px`);
+        addSizingStyles(node, styles, detached);
+        addSizeConstraints(node, styles);
 
-            addSizeConstraints(node, styles);
-            addAutoLayoutStyles(node, styles);
+        if (isAutoLayoutNode(node)) {
+            addAutoLayoutStyles(node, styles, options);
         } else if (node.type === 'TEXT') {
-            styles.push('width: auto');
-            styles.push('height: fit-content');
-            addSizeConstraints(node, styles);
-            addTextStyles(node, styles);
-        } else {
-            const hasParentFrame = 'parent' in node && node.parent?.type === 'FRAME';
-            const isImage = node.type === 'RECTANGLE' && 'fills' in node && Array.isArray(node.fills) &&
-                node.fills.length > 0 && node.fills[0].type === 'IMAGE';
-
-            styles.push(hasParentFrame
-                ? `width: ${Math.round((node.width / node.parent.width) * 100)}%`
-                : `width: ${Math.round(node.width)}px`
-            );
-
-            // 画像の場合は height: auto を設定
-            styles.push(isImage ? 'height: auto' : `height: ${Math.round(node.height)}px`);
-            addSizeConstraints(node, styles);
+            addTextStyles(node, styles, options);
         }
     }
 
-    // 色設定
-    addColorStyles(node, styles);
+    // 色・線・角丸・エフェクト・不透明度の設定
+    // SVGや画像として書き出す要素は、塗りや線が書き出したファイルに含まれるため不透明度のみ設定
+    if (!isGraphic) {
+        addColorStyles(node, styles, options);
+        addStrokeStyles(node, styles);
+        addCornerRadiusStyles(node, styles);
+        addEffectStyles(node, styles, options);
+    }
+    addLayerStyles(node, styles);
+    if (!detached) addGridChildStyles(node, styles, options);
 
-    // 位置の設定
-    if ('layoutPositioning' in node && node.layoutPositioning === 'ABSOLUTE') {
-        styles.push('position: absolute');
-        styles.push(`left: ${Math.round(node.x)}px`);
-        styles.push(`top: ${Math.round(node.y)}px`);
+    // 位置の設定（制約に基づく絶対位置、それ以外で回転している場合は回転のみ）
+    if (!detached && !topLevel && isConstraintPositioned(node, options)) {
+        addConstraintStyles(node, styles);
+    } else {
+        const rotation = formatRotation(node);
+        if (rotation) styles.push(`transform: ${rotation}`);
     }
 
     return styles;
 }
 
 /**
- * HTML要素のデータ構造からSCSSを生成する
- * - セレクタとスタイルの収集
+ * SCSSをネストして出力するためのルール
+ */
+interface NestedRule {
+    selector: string;
+    declarations: string[];
+    conflicts: string[];
+    children: NestedRule[];
+}
+
+/**
+ * スタイル宣言からプロパティ名を取得する
+ * @param declaration - "property: value" 形式のスタイル
+ * @returns プロパティ名（@include などはその宣言自体）
+ */
+export function getPropertyName(declaration: string): string {
+    const index = declaration.indexOf(':');
+    return index > 0 && !declaration.startsWith('@') ? declaration.slice(0, index).trim() : declaration;
+}
+
+/**
+ * スタイル宣言の配列をプロパティ名をキーとしたMapに変換する
+ * @param declarations - "property: value" 形式のスタイル配列
+ * @returns プロパティ名ごとの宣言
+ */
+export function toPropertyMap(declarations: string[]): Map<string, string> {
+    return new Map(declarations.map(declaration => [getPropertyName(declaration), declaration]));
+}
+
+/**
+ * 基準のスタイルから変化したプロパティだけを抽出する
+ * （直前のブレークポイントやコンポーネントのベースのスタイルとの差分）
+ * - 値が変わったプロパティ、追加されたプロパティはそのまま出力
+ * - なくなったプロパティは unset で打ち消す
+ * @param previous - 基準のスタイル
+ * @param current - 比較するスタイル
+ * @returns 上書きが必要なスタイルの配列
+ */
+export function diffDeclarations(previous: Map<string, string>, current: Map<string, string>): string[] {
+    const overrides: string[] = [];
+
+    current.forEach((declaration, property) => {
+        if (previous.get(property) !== declaration) {
+            overrides.push(declaration);
+        }
+    });
+    previous.forEach((_declaration, property) => {
+        if (!current.has(property) && !property.startsWith('@')) {
+            overrides.push(`${property}: unset`);
+        }
+    });
+
+    return overrides;
+}
+
+/**
+ * HTML要素のクラス名からクラスセレクタを取得する（フック用の接頭辞で始まるものは除く）
+ * @param element - HTML要素のデータ構造
+ * @param hookClassPrefix - JavaScriptのフック用のクラス名の接頭辞
+ * @returns クラスセレクタ（クラス名がない場合は空文字）
+ */
+function getClassSelector(element: ElementData, hookClassPrefix?: string): string {
+    const classes = (element.classes || []).filter(cls => !isHookClass(cls, hookClassPrefix));
+    return classes.length > 0 ? `.${classes.join('.')}` : '';
+}
+
+/**
+ * HTML要素のデータ構造に対応するセレクタを取得する
+ * - クラス名がある場合はフック用の接頭辞で始まるものを除いたクラスセレクタ
+ * - クラス名がない場合は親のセレクタを起点にした子セレクタ（同じタグの兄弟がある場合は :nth-of-type）
+ * - 親のセレクタもない場合はタグ名（書き出しではフレーム直下の要素に scopeTopLevelElements でクラス名を付けるため使われない）
+ * @param element - HTML要素のデータ構造
+ * @param parentSelector - 親要素のセレクタ
+ * @param siblings - 兄弟要素（自身を含む）
+ * @param hookClassPrefix - JavaScriptのフック用のクラス名の接頭辞
+ * @returns セレクタ文字列（対象外の場合は空文字）
+ */
+function getSelector(element: ElementData, parentSelector = '', siblings: ElementData[] = [], hookClassPrefix?: string): string {
+    if (element.tag === '#text') return '';
+
+    const classSelector = getClassSelector(element, hookClassPrefix);
+    if (classSelector) return classSelector;
+    // HTMLと同じく、タグ名として無効な名前は div として扱う
+    const tag = toOutputTagName(element.tag);
+    if (!parentSelector) return tag;
+
+    const sameTags = siblings.filter(sibling => toOutputTagName(sibling.tag) === tag);
+    const nth = sameTags.length > 1 ? `:nth-of-type(${sameTags.indexOf(element) + 1})` : '';
+    return `${parentSelector} > ${tag}${nth}`;
+}
+
+/**
+ * コンポーネント内の要素のセレクタを、モディファイアや擬似クラスを付けたルートのセレクタの配下に変換する
+ * 例: (".button__label", ".button", ".button.button--large") → ".button.button--large .button__label"
+ *     (".button > span", ".button", ".button:hover") → ".button:hover > span"
+ * @param selector - 要素のセレクタ
+ * @param rootSelector - コンポーネントのルートのセレクタ
+ * @param scope - 変換後のルートのセレクタ
+ * @returns 変換したセレクタ
+ */
+function scopeSelector(selector: string, rootSelector: string, scope: string): string {
+    if (selector === rootSelector) return scope;
+    if (selector.startsWith(`${rootSelector} `)) return `${scope}${selector.slice(rootSelector.length)}`;
+    return `${scope} ${selector}`;
+}
+
+/**
+ * モディファイアのないインスタンスの差分を出力するセレクタを取得する（ベースのルールと重ならないようにする）
+ * - 親のセレクタの子セレクタ（例: ".list > .button"）
+ * - 同じクラスの兄弟がある場合や親のセレクタがない場合は :nth-child で位置を限定する（例: ".list > .button:nth-child(2)"）
+ * @param element - インスタンスの要素
+ * @param classes - ルートのクラス名（モディファイアを除く）
+ * @param rootSelector - コンポーネントのルートのセレクタ
+ * @param parentSelector - 親要素のセレクタ
+ * @param siblings - 兄弟要素（自身を含む）
+ * @returns インスタンスの差分のセレクタ
+ */
+function getInstanceSelector(element: ElementData, classes: string[], rootSelector: string, parentSelector: string, siblings: ElementData[]): string {
+    const sameClasses = siblings.filter(sibling => classes.every(cls => sibling.classes?.includes(cls)));
+    const nth = !parentSelector || sameClasses.length > 1 ? `:nth-child(${siblings.indexOf(element) + 1})` : '';
+    return `${parentSelector ? `${parentSelector} > ` : ''}${rootSelector}${nth}`;
+}
+
+/**
+ * 要素のパスごとのスタイルの差分を、ルートのセレクタを変換して出力する
+ * @param base - 基準のスタイル（パスごと）
+ * @param current - 比較するスタイル（パスごと）
+ * @param rootSelector - コンポーネントのルートのセレクタ
+ * @param scope - 変換後のルートのセレクタ
+ * @returns 差分のある要素のスタイル
+ */
+function diffElementStyles(base: Map<string, ElementStyle>, current: Map<string, ElementStyle>, rootSelector: string, scope: string): ElementStyle[] {
+    const result: ElementStyle[] = [];
+
+    current.forEach((elementStyle, path) => {
+        const declarations = diffDeclarations(
+            toPropertyMap(base.get(path)?.declarations || []),
+            toPropertyMap(elementStyle.declarations)
+        );
+        if (declarations.length > 0) {
+            result.push({ ...elementStyle, selector: scopeSelector(elementStyle.selector, rootSelector, scope), declarations });
+        }
+    });
+
+    return result;
+}
+
+/**
+ * 絶対位置の子要素の基準（position: relative）にするノードかどうかを判定する
+ * @param node - Figmaノード
+ * @returns フレーム・コンポーネント・インスタンスの場合true
+ */
+function isPositionContainer(node?: SceneNode): boolean {
+    return node !== undefined && 'layoutMode' in node;
+}
+
+/**
+ * HTML要素のデータ構造から要素ごとのスタイルを収集する
+ * - 要素ごとのセレクタとスタイル（ツリーの順）
  * - position: absoluteの要素に対する親要素の処理
- * - SCSSの整形と出力
- * @param elementData - HTML要素のデータ構造
- * @returns 生成されたSCSS文字列
+ * - コンポーネントのまとめ（mapComponents が true の場合）
+ *   - メインコンポーネントごとにベース（デフォルトのバリアント）のスタイルを1度だけ出力
+ *   - ベースと状態のバリアントは、コンポーネントセット内の配置や親に依存する伸縮・サイズを含めずに出力
+ *   - インスタンスはベースと異なる宣言のみを、モディファイアのクラスのセレクタで出力
+ *     （モディファイアがない場合は親のセレクタで限定したセレクタ）
+ *   - Hover/Pressed などのバリアントは :hover/:active のルールとして通常の状態との差分を出力
+ * - 長さの単位の変換（options.unit が rem / vw の場合）
+ * @param elementData - HTML要素のデータ構造（複数の場合はまとめて収集）
+ * @param options - スタイル生成のオプション
+ * @param mapComponents - コンポーネントをベースとの差分で出力するかどうか
+ * @returns 要素ごとのスタイル（スタイルの対象外の要素は含まない）
  */
-export function generateSCSS(elementData: ElementData): string {
-    const selectors: string[] = [];
-    const styles: Record<string, Set<string>> = {};
-    const absoluteElements: Set<string> = new Set();
+export function collectElementStyles(elementData: ElementData | ElementData[], options: StyleOptions = {}, mapComponents = false): ElementStyle[] {
+    const roots = Array.isArray(elementData) ? elementData : [elementData];
+    const relativeElements: Set<ElementStyle> = new Set();
+    const detachedRoots: Set<ElementData> = new Set();
+    const emitted: Set<string> = new Set();
+    // 書き出すフレーム（ルートの要素の親ノード）
+    const frames = new Set(roots.map(root => root._node?.parent).filter(Boolean));
 
-    function collectSelectorsAndStyles(element: ElementData) {
-        const { tag, classes, _node } = element;
-        const currentSelector = classes?.length
-            ? '.' + classes.filter(cls => !cls.startsWith('js-')).join('.')
-            : tag !== 'picture' ? tag : '';
+    function collect(
+        element: ElementData,
+        output: Map<string, ElementStyle>,
+        components: boolean,
+        path = '',
+        parent?: ElementData,
+        parentStyle?: ElementStyle,
+        parentSelector = ''
+    ) {
+        const { _node, _text, _component } = element;
+        if (components && _component?.base) {
+            collectComponent(element, _component, _component.base, output, path, parent, parentStyle, parentSelector);
+            return;
+        }
+
+        const selector = getSelector(element, parentSelector, parent?.children, options.hookClassPrefix);
+        let elementStyle: ElementStyle | undefined;
 
-        if (currentSelector) {
-            selectors.push(currentSelector);
-            styles[currentSelector] = styles[currentSelector] || new Set();
+        // クラス名のない picture はスタイルの対象外（子要素のセレクタの起点としてのみ使用）
+        if (selector && (element.tag !== 'picture' || getClassSelector(element, options.hookClassPrefix))) {
+            elementStyle = {
+                element,
+                // 段落間隔は隣接する段落の間にだけ設定する
+                selector: _text?.kind === 'paragraph' ? `${selector} + ${selector}` : selector,
+                declarations: []
+            };
 
             if (_node) {
-                const nodeStyles = generateNodeStyles(_node);
-                nodeStyles.forEach(style => styles[currentSelector].add(style));
-                if (nodeStyles.includes('position: absolute')) {
-                    absoluteElements.add(currentSelector);
+                const isGraphic = Boolean(element._svg) || element._export !== undefined;
+                const topLevel = frames.has(_node.parent);
+                elementStyle.declarations = generateNodeStyles(_node, options, isGraphic, detachedRoots.has(element), topLevel);
+                if (element._background) {
+                    addBackgroundImageStyles(_node, element._background, elementStyle.declarations);
                 }
+
+                // position: absolute をつける要素の親フレームに position: relative を加える
+                if (elementStyle.declarations.includes('position: absolute') && isPositionContainer(parent?._node) && parentStyle) {
+                    relativeElements.add(parentStyle);
+                }
+            } else if (_text) {
+                elementStyle.declarations = generateRichTextStyles(element, _text, options);
             }
+            output.set(path, elementStyle);
         }
 
-        element.children?.forEach(child => collectSelectorsAndStyles(child));
+        element.children?.forEach((child, index) => collect(child, output, components, `${path}/${index}`, element, elementStyle, selector));
     }
 
-    collectSelectorsAndStyles(elementData);
+    // コンポーネント内の要素をパスごとに収集する（入れ子のインスタンスはそのままのスタイルで扱う）
+    // ベースや状態のバリアントのルートは、コンポーネントセット内の配置を含めないように親から切り離して扱う
+    function collectTree(element: ElementData, detached = false): Map<string, ElementStyle> {
+        const output = new Map<string, ElementStyle>();
+        if (detached) detachedRoots.add(element);
+        collect(element, output, false);
+        return output;
+    }
 
-    // position: absolute をつ素の親フレームに position: relative を加
-    absoluteElements.forEach(absoluteSelector => {
-        function addPositionRelative(element: ElementData): boolean {
-            const currentSelector = element.classes?.length
-                ? '.' + element.classes.filter(cls => !cls.startsWith('js-')).join('.')
-                : element.tag !== 'picture' ? element.tag : '';
+    function collectComponent(
+        element: ElementData,
+        info: ComponentInfo,
+        baseElement: ElementData,
+        output: Map<string, ElementStyle>,
+        path: string,
+        parent?: ElementData,
+        parentStyle?: ElementStyle,
+        parentSelector = ''
+    ) {
+        const classes = (element.classes || []).filter(cls => !info.modifiers.includes(cls));
+        const rootSelector = getClassSelector({ ...element, classes }, options.hookClassPrefix);
+        const scope = getClassSelector(element, options.hookClassPrefix);
 
-            for (const child of element.children || []) {
-                const childSelector = child.classes?.length
-                    ? '.' + child.classes.filter(cls => !cls.startsWith('js-')).join('.')
-                    : child.tag !== 'picture' ? child.tag : '';
+        // ベースのスタイル（メインコンポーネントごとに1度だけ出力）
+        const base = collectTree({ ...baseElement, classes }, true);
+        if (!emitted.has(info.id)) {
+            emitted.add(info.id);
+            base.forEach((elementStyle, basePath) => output.set(`${path}#base${basePath}`, elementStyle));
+        }
 
-                if (childSelector === absoluteSelector) {
-                    if (currentSelector && element._node?.type === 'FRAME') {
-                        styles[currentSelector].add('position: relative');
-                        return true;
-                    }
-                }
+        // インスタンスのスタイル（ベースとの差分）
+        const instance = collectTree({ ...element, classes });
+        const root = instance.get('');
+        if (root?.declarations.includes('position: absolute') && isPositionContainer(parent?._node) && parentStyle) {
+            relativeElements.add(parentStyle);
+        }
+        const instanceScope = scope !== rootSelector
+            ? scope
+            : getInstanceSelector(element, classes, rootSelector, parentSelector, parent?.children || roots);
+        diffElementStyles(base, instance, rootSelector, instanceScope)
+            .forEach((elementStyle, index) => output.set(`${path}#${index}`, elementStyle));
 
-                if (addPositionRelative(child)) return true;
-            }
-            return false;
+        // 状態のバリアント（通常の状態との差分を擬似クラスのルールとして出力）
+        // コンポーネントのファイルで props から状態を指定できるように、同じ差分を状態のモディファイアのルールとしても出力する
+        info.states.forEach(({ pseudo, modifier, element: state, resting }) => {
+            const key = `${info.id}${scope}${pseudo}`;
+            if (emitted.has(key)) return;
+            emitted.add(key);
+
+            const restingStyles = collectTree({ ...resting, classes }, true);
+            const stateStyles = collectTree({ ...state, classes }, true);
+            [`${scope}${pseudo}`, `${scope}.${info.block}--${modifier}`].forEach(stateScope => {
+                diffElementStyles(restingStyles, stateStyles, rootSelector, stateScope)
+                    .forEach((elementStyle, index) => output.set(`${path}${stateScope}#${index}`, elementStyle));
+            });
+        });
+    }
+
+    const output = new Map<string, ElementStyle>();
+    roots.forEach((element, index) => collect(element, output, mapComponents, `${index}`));
+
+    // 親フレーム自体に position の指定がある場合はそのまま基準になるため追加しない
+    relativeElements.forEach(elementStyle => {
+        if (!elementStyle.declarations.some(style => getPropertyName(style) === 'position')) {
+            elementStyle.declarations.push('position: relative');
+        }
+    });
+
+    // 長さの単位を変換（コンポーネントの差分は変換前の px の値で比較する）
+    const result = [...output.values()];
+    result.forEach(elementStyle => {
+        elementStyle.declarations = elementStyle.declarations.map(declaration => convertDeclarationUnits(declaration, options));
+    });
+    return result;
+}
+
+/**
+ * HTML要素のデータ構造からセレクタごとのスタイルを収集する
+ * 同じセレクタで値が異なるプロパティは先に出現した値を採用し、競合として記録する
+ * コンポーネントはメインコンポーネントごとのベースと、インスタンスの差分にまとめる
+ * @param elementData - HTML要素のデータ構造（複数の場合はまとめて収集）
+ * @param options - スタイル生成のオプション
+ * @returns セレクタごとのスタイル
+ */
+export function collectStyles(elementData: ElementData | ElementData[], options: StyleOptions = {}): StyleSheet {
+    const selectors: string[] = [];
+    const styles: Record<string, string[]> = {};
+    const conflicts: Record<string, string[]> = {};
+
+    collectElementStyles(elementData, options, true).forEach(({ selector, declarations }) => {
+        const current = styles[selector];
+        if (!current) {
+            selectors.push(selector);
+            styles[selector] = [...new Set(declarations)];
+            return;
         }
 
-        addPositionRelative(elementData);
+        const properties = new Set(current.map(getPropertyName));
+        declarations.forEach(declaration => {
+            if (current.includes(declaration)) return;
+            if (properties.has(getPropertyName(declaration))) {
+                conflicts[selector] = conflicts[selector] || [];
+                if (!conflicts[selector].includes(declaration)) {
+                    conflicts[selector].push(declaration);
+                }
+            } else {
+                current.push(declaration);
+            }
+        });
     });
 
-    // SCSSの生成
-    return [...new Set(selectors)]
+    return { selectors, styles, conflicts };
+}
+
+/**
+ * ルール内の宣言と競合のコメントを行に整形する
+ * @param declarations - "property: value" 形式のスタイル配列
+ * @param conflicts - 競合して採用しなかった宣言
+ * @param indent - インデント（スペース）
+ * @returns 整形された行の配列
+ */
+function formatDeclarations(declarations: string[], conflicts: string[], indent: string): string[] {
+    return [
+        ...declarations.map(declaration => `${indent}${declaration};`),
+        ...conflicts.map(declaration => `${indent}/* 競合: ${declaration} */`)
+    ];
+}
+
+/**
+ * セレクタごとのスタイルをSCSSのルールに整形する
+ * 競合したスタイルはルール内にコメントとして出力する
+ * @param sheet - セレクタごとのスタイル
+ * @param indent - インデント（スペース）
+ * @param indentUnit - インデント1段分のスペース
+ * @returns 整形されたSCSS文字列
+ */
+export function formatStyleSheet(sheet: StyleSheet, indent = '', indentUnit = getIndentUnit()): string {
+    return sheet.selectors
         .map(selector => {
-            const styleArray = [...styles[selector]];
+            const styleArray = sheet.styles[selector] || [];
+            const lines = formatDeclarations(styleArray, sheet.conflicts?.[selector] || [], `${indent}${indentUnit}`);
             return styleArray.length > 0
-                ? `${selector} {\n  ${styleArray.join(';\n  ')};\n}\n`
+                ? `${indent}${selector} {\n${lines.join('\n')}\n${indent}}\n`
                 : '';
         })
         .filter(Boolean)
         .join('\n');
-} 
\ No newline at end of file
+}
+
+/**
+ * セレクタをネストしたルールの階層に分解する
+ * 例: ".card__title.card__title--small" → [".card", "&__title", "&--small"]
+ *     ".card__item + .card__item" → [".card", "&__item", "& + &"]
+ *     ".card > div:nth-of-type(2)" → [".card", "& > div:nth-of-type(2)"]
+ * @param selector - セレクタ
+ * @returns 外側から順のセレクタ（クラスセレクタで始まらない場合はそのまま）
+ */
+function splitBEMSelector(selector: string): string[] {
+    const match = selector.match(/^((?:\.[a-zA-Z0-9_-]+)+)(.*)$/);
+    if (!match) return [selector];
+
+    const [, head, tail] = match;
+    const [first, ...rest] = head.slice(1).split('.');
+    const [blockAndElement, ...modifiers] = first.split('--');
+    const [block, ...elements] = blockAndElement.split('__');
+
+    // 2つ目以降のクラスのうち、同じブロック/エレメントのモディファイアは &--modifier にする
+    const extras: string[] = [];
+    rest.forEach(cls => {
+        if (modifiers.length === 0 && cls.startsWith(`${blockAndElement}--`)) {
+            modifiers.push(cls.slice(blockAndElement.length + 2));
+        } else {
+            extras.push(cls);
+        }
+    });
+
+    const path = [`.${block}`];
+    if (elements.length > 0) path.push(`&__${elements.join('__')}`);
+    if (modifiers.length > 0) path.push(`&--${modifiers.join('--')}`);
+    if (extras.length > 0) path.push(`&.${extras.join('.')}`);
+    if (tail) path.push(tail.trim() === `+ ${head}` ? '& + &' : `&${tail}`);
+    return path;
+}
+
+/**
+ * ネストしたルールをSCSSに整形する
+ * @param rule - ネストしたルール
+ * @param indent - インデント（スペース）
+ * @param indentUnit - インデント1段分のスペース
+ * @returns 整形されたSCSS文字列（宣言も子ルールもない場合は空文字）
+ */
+function formatNestedRule(rule: NestedRule, indent: string, indentUnit: string): string {
+    const lines = formatDeclarations(rule.declarations, rule.conflicts, `${indent}${indentUnit}`);
+    const children = rule.children
+        .map(child => formatNestedRule(child, `${indent}${indentUnit}`, indentUnit))
+        .filter(Boolean);
+    if (lines.length === 0 && children.length === 0) return '';
+
+    const body = [lines.join('\n'), ...children].filter(Boolean).join('\n\n');
+    return `${indent}${rule.selector} {\n${body}\n${indent}}`;
+}
+
+/**
+ * セレクタごとのスタイルを、BEMのブロックごとにネストしたSCSSのルールに整形する
+ * - エレメントは &__element、モディファイアは &--modifier としてブロックの中にネスト
+ * - クラス名のない要素の子セレクタは & > tag として親の中にネスト
+ * @param sheet - セレクタごとのスタイル
+ * @param indent - インデント（スペース）
+ * @param indentUnit - インデント1段分のスペース
+ * @returns 整形されたSCSS文字列
+ */
+export function formatNestedStyleSheet(sheet: StyleSheet, indent = '', indentUnit = getIndentUnit()): string {
+    const root: NestedRule = { selector: '', declarations: [], conflicts: [], children: [] };
+
+    sheet.selectors.forEach(selector => {
+        const rule = splitBEMSelector(selector).reduce((parent, part) => {
+            let child = parent.children.find(candidate => candidate.selector === part);
+            if (!child) {
+                child = { selector: part, declarations: [], conflicts: [], children: [] };
+                parent.children.push(child);
+            }
+            return child;
+        }, root);
+        rule.declarations.push(...(sheet.styles[selector] || []));
+        rule.conflicts.push(...(sheet.conflicts?.[selector] || []));
+    });
+
+    return root.children
+        .map(rule => formatNestedRule(rule, indent, indentUnit))
+        .filter(Boolean)
+        .map(rule => `${rule}\n`)
+        .join('\n');
+}
+
+/**
+ * HTML要素のデータ構造からSCSSを生成する
+ * @param elementData - HTML要素のデータ構造（複数の場合はまとめて生成）
+ * @param options - スタイル生成のオプション
+ * @returns 生成されたSCSS文字列
+ */
+export function generateSCSS(elementData: ElementData | ElementData[], options: StyleOptions = {}): string {
+    const sheet = collectStyles(elementData, options);
+    const indentUnit = getIndentUnit(options.indentSize);
+    return options.nesting ? formatNestedStyleSheet(sheet, '', indentUnit) : formatStyleSheet(sheet, '', indentUnit);
+}
@@ -0,0 +1,135 @@
+import { Breakpoint, ExportSettings, LengthUnit, OutputTargetName } from './types';
+
+// 設定の保存に使うキー（clientStorage と pluginData で共通）
+const SETTINGS_KEY = 'export-settings';
+
+// 出力ターゲットの名前（読み込んだ設定の検証に使用）
+const TARGET_NAMES: OutputTargetName[] = ['scss', 'css', 'css-modules', 'tailwind', 'react', 'vue', 'astro'];
+
+// 長さの単位（読み込んだ設定の検証に使用）
+const LENGTH_UNITS: LengthUnit[] = ['px', 'rem', 'vw'];
+
+/**
+ * デフォルトの設定
+ */
+export const DEFAULT_SETTINGS: ExportSettings = {
+    target: 'scss',
+    breakpoints: [
+        { name: 'pc', width: 1440 },
+        { name: 'sp', width: 425 }
+    ],
+    responsive: false,
+    nesting: false,
+    layoutGrids: false,
+    assets: false,
+    unit: 'px',
+    rootFontSize: 16,
+    fluid: false,
+    hookClassPrefix: 'js-',
+    indentSize: 2,
+    fallbackImageSrc: './images/dummy.jpg',
+    placeholderUrl: 'https://placehold.jp/{width}x{height}.png',
+    semanticNaming: true,
+    bemNaming: true,
+    auditComment: false,
+    standaloneDocument: false,
+    lang: 'ja'
+};
+
+/**
+ * クラス名がJavaScriptのフック用（スタイルの対象外）かどうかを判定する
+ * @param cls - クラス名
+ * @param prefix - フック用のクラス名の接頭辞（空文字の場合はフック用のクラス名なし）
+ * @returns フック用のクラス名の場合true
+ */
+export function isHookClass(cls: string, prefix = DEFAULT_SETTINGS.hookClassPrefix): boolean {
+    return prefix !== '' && cls.startsWith(prefix);
+}
+
+/**
+ * インデント1段分の文字列を取得する
+ * @param size - インデントのスペースの数
+ * @returns インデント1段分のスペース
+ */
+export function getIndentUnit(size = DEFAULT_SETTINGS.indentSize): string {
+    return ' '.repeat(Math.max(0, Math.min(size, 8)));
+}
+
+/**
+ * プレースホルダー画像のURLを生成する
+ * @param template - URLのテンプレート（{width} と {height} をサイズに置き換える）
+ * @param width - 画像の幅
+ * @param height - 画像の高さ
+ * @returns プレースホルダー画像のURL
+ */
+export function formatPlaceholderUrl(template: string, width: number, height: number): string {
+    return template
+        .replace(/\{width\}/g, String(Math.round(width)))
+        .replace(/\{height\}/g, String(Math.round(height)));
+}
+
+/**
+ * 読み込んだ値を設定として検証し、不足・不正な項目をデフォルト値で補う
+ * @param value - 保存されていた値、またはインポートしたJSON
+ * @returns 検証済みの設定
+ */
+export function normalizeSettings(value: unknown): ExportSettings {
+    const source = typeof value === 'object' && value !== null ? value as Record<string, unknown> : {};
+    const pick = <K extends keyof ExportSettings>(key: K, isValid: (candidate: unknown) => boolean): ExportSettings[K] =>
+        isValid(source[key]) ? source[key] as ExportSettings[K] : DEFAULT_SETTINGS[key];
+
+    const isBoolean = (candidate: unknown) => typeof candidate === 'boolean';
+    const isString = (candidate: unknown) => typeof candidate === 'string';
+    const isPositiveNumber = (candidate: unknown) => typeof candidate === 'number' && Number.isFinite(candidate) && candidate > 0;
+    const isBreakpoint = (candidate: unknown): candidate is Breakpoint =>
+        typeof candidate === 'object' && candidate !== null &&
+        isString((candidate as Breakpoint).name) && (candidate as Breakpoint).name !== '' &&
+        isPositiveNumber((candidate as Breakpoint).width);
+
+    return {
+        target: pick('target', candidate => TARGET_NAMES.includes(candidate as OutputTargetName)),
+        breakpoints: pick('breakpoints', candidate => Array.isArray(candidate) && candidate.length > 0 && candidate.every(isBreakpoint)),
+        responsive: pick('responsive', isBoolean),
+        nesting: pick('nesting', isBoolean),
+        layoutGrids: pick('layoutGrids', isBoolean),
+        assets: pick('assets', isBoolean),
+        unit: pick('unit', candidate => LENGTH_UNITS.includes(candidate as LengthUnit)),
+        rootFontSize: pick('rootFontSize', isPositiveNumber),
+        fluid: pick('fluid', isBoolean),
+        hookClassPrefix: pick('hookClassPrefix', isString),
+        indentSize: pick('indentSize', candidate => typeof candidate === 'number' && Number.isInteger(candidate) && candidate >= 0 && candidate <= 8),
+        fallbackImageSrc: pick('fallbackImageSrc', candidate => isString(candidate) && candidate !== ''),
+        placeholderUrl: pick('placeholderUrl', candidate => isString(candidate) && candidate !== ''),
+        semanticNaming: pick('semanticNaming', isBoolean),
+        bemNaming: pick('bemNaming', isBoolean),
+        auditComment: pick('auditComment', isBoolean),
+        standaloneDocument: pick('standaloneDocument', isBoolean),
+        lang: pick('lang', candidate => isString(candidate) && /^[a-zA-Z]{2,3}(-[a-zA-Z0-9]+)*$/.test(candidate))
+    };
+}
+
+/**
+ * 保存されている設定を読み込む
+ * ドキュメントに保存された設定（チームで共有）を優先し、ない場合はユーザーごとの設定を使う
+ * @returns 設定（保存されていない場合はデフォルトの設定）
+ */
+export async function loadSettings(): Promise<ExportSettings> {
+    const documentSettings = figma.root.getPluginData(SETTINGS_KEY);
+    if (documentSettings) {
+        try {
+            return normalizeSettings(JSON.parse(documentSettings));
+        } catch (error) {
+            console.error('Invalid document settings:', error);
+        }
+    }
+    return normalizeSettings(await figma.clientStorage.getAsync(SETTINGS_KEY));
+}
+
+/**
+ * 設定をドキュメントとユーザーごとの保存先の両方に保存する
+ * @param settings - 保存する設定
+ */
+export async function saveSettings(settings: ExportSettings): Promise<void> {
+    figma.root.setPluginData(SETTINGS_KEY, JSON.stringify(settings));
+    await figma.clientStorage.setAsync(SETTINGS_KEY, settings);
+}
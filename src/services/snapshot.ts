@@ -0,0 +1,327 @@
+import { ElementData, ExportSettings, NodeSnapshot, SnapshotDocument, SnapshotNodeAdapter, TokenRegistry } from './types';
+import { generateElementData } from './html-generator';
+import { getTextSegments } from './rich-text';
+import { collectTokens, createTokenRegistry } from './tokens';
+import { normalizeSettings } from './settings';
+
+// スナップショットの形式のバージョン（互換性のない変更をしたら上げる）
+export const SNAPSHOT_VERSION = 1;
+
+// スナップショットに保存するノードのプロパティ（ジェネレーターが参照するもの）
+const SNAPSHOT_PROPERTIES = [
+    // 表示・位置・サイズ
+    'visible', 'x', 'y', 'width', 'height', 'rotation', 'relativeTransform', 'opacity', 'blendMode', 'constraints',
+    'minWidth', 'maxWidth', 'minHeight', 'maxHeight',
+    // 塗り・線・角丸・エフェクト
+    'fills', 'fillStyleId', 'strokes', 'strokeStyleId', 'strokeWeight', 'strokeAlign', 'dashPattern',
+    'strokeTopWeight', 'strokeRightWeight', 'strokeBottomWeight', 'strokeLeftWeight',
+    'cornerRadius', 'topLeftRadius', 'topRightRadius', 'bottomRightRadius', 'bottomLeftRadius',
+    'effects', 'effectStyleId', 'boundVariables',
+    // 自動レイアウト
+    'layoutMode', 'layoutWrap', 'primaryAxisSizingMode', 'counterAxisSizingMode',
+    'primaryAxisAlignItems', 'counterAxisAlignItems', 'counterAxisAlignContent', 'itemSpacing', 'counterAxisSpacing',
+    'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft',
+    'layoutAlign', 'layoutGrow', 'layoutPositioning', 'layoutSizingHorizontal', 'layoutSizingVertical',
+    // グリッドレイアウト・レイアウトグリッド
+    'gridRowCount', 'gridColumnCount', 'gridRowGap', 'gridColumnGap', 'gridRowSizes', 'gridColumnSizes',
+    'gridRowSpan', 'gridColumnSpan', 'gridChildHorizontalAlign', 'gridChildVerticalAlign', 'layoutGrids',
+    // テキスト
+    'characters', 'fontSize', 'fontName', 'fontWeight', 'textStyleId', 'textAlignHorizontal', 'textAutoResize',
+    'textCase', 'textDecoration', 'letterSpacing', 'lineHeight', 'paragraphSpacing', 'hyperlink',
+    // コンポーネント
+    'componentProperties', 'componentPropertyDefinitions', 'variantProperties'
+];
+
+// ノードの種類ごとにスナップショットに必須のプロパティ
+// ジェネレーターはプロパティの有無でノードの機能を判定するため（'fillStyleId' in node など）、欠けていると出力が変わってしまう
+// figma.mixed になりうるプロパティ（cornerRadius、テキストの fills など）は保存されない場合があるため含めない
+const LAYOUT_PROPERTIES: (keyof GroupNode)[] = [
+    'visible', 'x', 'y', 'width', 'height', 'rotation', 'relativeTransform', 'opacity', 'blendMode', 'effects',
+    'layoutAlign', 'layoutGrow', 'layoutPositioning'
+];
+const SHAPE_PROPERTIES: (keyof DefaultShapeMixin)[] = ['fills', 'fillStyleId', 'strokes'];
+const FRAME_PROPERTIES: (keyof BaseFrameMixin)[] = [
+    'constraints', 'layoutMode', 'primaryAxisSizingMode', 'counterAxisSizingMode', 'primaryAxisAlignItems', 'counterAxisAlignItems',
+    'itemSpacing', 'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft'
+];
+const TEXT_PROPERTIES: (keyof TextNode)[] = ['strokes', 'characters', 'textAlignHorizontal', 'textAutoResize', 'paragraphSpacing'];
+
+// フレームと同じプロパティを持つノードの種類
+const FRAME_TYPES: NodeSnapshot['type'][] = ['FRAME', 'COMPONENT', 'COMPONENT_SET', 'INSTANCE'];
+
+// 図形のノードの種類
+const SHAPE_TYPES: NodeSnapshot['type'][] = ['RECTANGLE', 'ELLIPSE', 'POLYGON', 'STAR', 'VECTOR', 'LINE', 'BOOLEAN_OPERATION'];
+
+/**
+ * スナップショットを作成するときに参照する書き出し結果
+ */
+interface SnapshotContext {
+    /** ノードのIDごとのインラインSVG */
+    svgs: Map<string, string>;
+    /** インスタンスのIDごとのメインコンポーネントのID */
+    mainComponentIds: Map<string, string>;
+}
+
+/**
+ * ノードのプロパティをJSONで表せる値として取得する
+ * @param node - Figmaノード
+ * @returns プロパティ名ごとの値
+ */
+function readProperties(node: BaseNode): Record<string, unknown> {
+    const source = node as unknown as Record<string, unknown>;
+    const properties: Record<string, unknown> = {};
+
+    SNAPSHOT_PROPERTIES.forEach(key => {
+        if (!(key in node)) return;
+        try {
+            const value = source[key];
+            if (value !== undefined && typeof value !== 'symbol') {
+                properties[key] = JSON.parse(JSON.stringify(value));
+            }
+        } catch (_error) {
+            // バリアントの componentPropertyDefinitions など、取得できないプロパティは含めない
+        }
+    });
+
+    return properties;
+}
+
+/**
+ * ノードとその子孫をスナップショットに変換する
+ * @param node - Figmaノード
+ * @param context - インラインSVGとメインコンポーネントの対応
+ * @returns ノードのスナップショット
+ */
+function serializeNode(node: SceneNode | ComponentSetNode, context: SnapshotContext): NodeSnapshot {
+    const snapshot: NodeSnapshot = {
+        id: node.id,
+        name: node.name,
+        type: node.type,
+        properties: readProperties(node)
+    };
+
+    if (node.type === 'TEXT') {
+        snapshot.segments = JSON.parse(JSON.stringify(getTextSegments(node)));
+    }
+    if (context.svgs.has(node.id)) {
+        snapshot.svg = context.svgs.get(node.id);
+    }
+    if (context.mainComponentIds.has(node.id)) {
+        snapshot.mainComponentId = context.mainComponentIds.get(node.id);
+    }
+    if (node.type === 'COMPONENT_SET') {
+        snapshot.defaultVariantId = node.defaultVariant.id;
+    }
+    if ('children' in node) {
+        snapshot.children = node.children.map(child => serializeNode(child, context));
+    }
+
+    return snapshot;
+}
+
+/**
+ * フレームのスナップショットを作成する
+ * - デザイントークン、インラインSVG、インスタンスのメインコンポーネントは書き出し時に解決して保存する
+ * - 画像（PNG/JPG）は含めない
+ * @param frame - 対象のフレーム
+ * @param settings - 書き出しの設定
+ * @returns スナップショットのドキュメント
+ */
+export async function createSnapshot(frame: FrameNode, settings: ExportSettings): Promise<SnapshotDocument> {
+    const registry = createTokenRegistry();
+    for (const child of frame.children) {
+        await collectTokens(child, registry);
+    }
+
+    // インラインSVGとして埋め込むノードをSVG文字列として書き出す
+    const context: SnapshotContext = { svgs: new Map(), mainComponentIds: new Map() };
+    const targets: SceneNode[] = [];
+    function collect(element: ElementData) {
+        if (element._svg && element._node) {
+            targets.push(element._node as SceneNode);
+        }
+        element.children.forEach(collect);
+    }
+    frame.children
+        .map(child => generateElementData(child, { fallbackImageSrc: settings.fallbackImageSrc, hookClassPrefix: settings.hookClassPrefix }))
+        .forEach(collect);
+    for (const node of targets) {
+        context.svgs.set(node.id, await node.exportAsync({ format: 'SVG_STRING' }));
+    }
+
+    // インスタンスのメインコンポーネント（バリアントの場合はコンポーネントセット）を収集
+    const components = new Map<string, NodeSnapshot>();
+    const sources: (ComponentNode | ComponentSetNode)[] = [];
+    for (const instance of frame.findAllWithCriteria({ types: ['INSTANCE'] })) {
+        const main = await instance.getMainComponentAsync();
+        if (!main) continue;
+        context.mainComponentIds.set(instance.id, main.id);
+        const source = main.parent?.type === 'COMPONENT_SET' ? main.parent : main;
+        if (!sources.includes(source)) sources.push(source);
+    }
+    sources.forEach(source => components.set(source.id, serializeNode(source, context)));
+
+    const variables: SnapshotDocument['tokens']['variables'] = {};
+    const mixins: SnapshotDocument['tokens']['mixins'] = {};
+    registry.variables.forEach((token, id) => {
+        variables[id] = token;
+    });
+    registry.mixins.forEach((token, id) => {
+        mixins[id] = token;
+    });
+
+    return {
+        version: SNAPSHOT_VERSION,
+        settings,
+        tokens: { variables, mixins },
+        components: [...components.values()],
+        root: serializeNode(frame, context)
+    };
+}
+
+/**
+ * ノードの種類ごとにスナップショットに必須のプロパティを取得する
+ * @param type - ノードの種類
+ * @returns 必須のプロパティ名
+ */
+function getRequiredProperties(type: NodeSnapshot['type']): string[] {
+    if (type === 'GROUP') return LAYOUT_PROPERTIES;
+    if (type === 'TEXT') return [...LAYOUT_PROPERTIES, ...TEXT_PROPERTIES];
+    if (FRAME_TYPES.includes(type)) return [...LAYOUT_PROPERTIES, ...SHAPE_PROPERTIES, ...FRAME_PROPERTIES];
+    if (SHAPE_TYPES.includes(type)) return [...LAYOUT_PROPERTIES, ...SHAPE_PROPERTIES];
+    return [];
+}
+
+/**
+ * ノードのスナップショットとその子孫の形式を検証する
+ * @param value - ノードのスナップショットとして読み込んだ値
+ * @param path - 親からのレイヤー名のパス
+ * @param errors - 問題の追加先
+ */
+function validateNodeSnapshot(value: unknown, path: string, errors: string[]): void {
+    const snapshot = value as Partial<NodeSnapshot> | null;
+    if (typeof snapshot !== 'object' || snapshot === null) {
+        errors.push(`${path}: not a node`);
+        return;
+    }
+
+    const nodePath = `${path}/${snapshot.name}`;
+    if (typeof snapshot.id !== 'string' || typeof snapshot.name !== 'string' || typeof snapshot.type !== 'string') {
+        errors.push(`${nodePath}: id, name and type are required`);
+        return;
+    }
+    if (typeof snapshot.properties !== 'object' || snapshot.properties === null) {
+        errors.push(`${nodePath}: properties are missing`);
+        return;
+    }
+
+    const properties = snapshot.properties;
+    const missing = getRequiredProperties(snapshot.type).filter(key => !(key in properties));
+    if (missing.length > 0) {
+        errors.push(`${nodePath} (${snapshot.type}): missing ${missing.join(', ')}`);
+    }
+    if (snapshot.type === 'TEXT' && !Array.isArray(snapshot.segments)) {
+        errors.push(`${nodePath} (TEXT): segments are missing`);
+    }
+    if (snapshot.children !== undefined) {
+        if (Array.isArray(snapshot.children)) {
+            snapshot.children.forEach(child => validateNodeSnapshot(child, nodePath, errors));
+        } else {
+            errors.push(`${nodePath}: children must be an array`);
+        }
+    }
+}
+
+/**
+ * JSON文字列をスナップショットのドキュメントとして読み込む
+ * ノードはジェネレーターが参照する必須のプロパティを全て持っているかを検証する
+ * @param json - スナップショットのJSON文字列
+ * @returns スナップショットのドキュメント（設定は不足・不正な項目をデフォルト値で補う）
+ * @throws 形式が正しくない場合、バージョンが異なる場合、必須のプロパティが欠けている場合
+ */
+export function parseSnapshot(json: string): SnapshotDocument {
+    const document = JSON.parse(json) as Partial<SnapshotDocument>;
+    if (typeof document !== 'object' || document === null || !document.root || !Array.isArray(document.root.children)) {
+        throw new Error('Invalid snapshot: root frame is missing');
+    }
+    if (document.version !== SNAPSHOT_VERSION) {
+        throw new Error(`Unsupported snapshot version: ${document.version} (expected ${SNAPSHOT_VERSION})`);
+    }
+
+    const errors: string[] = [];
+    validateNodeSnapshot(document.root, '', errors);
+    (document.components || []).forEach(component => validateNodeSnapshot(component, 'components', errors));
+    if (errors.length > 0) {
+        throw new Error(`Invalid snapshot:\n${errors.map(error => `- ${error}`).join('\n')}`);
+    }
+
+    return {
+        version: document.version,
+        settings: normalizeSettings(document.settings),
+        tokens: {
+            variables: document.tokens?.variables || {},
+            mixins: document.tokens?.mixins || {}
+        },
+        components: document.components || [],
+        root: document.root
+    };
+}
+
+/**
+ * スナップショットに保存したデザイントークンの対応表を復元する
+ * @param document - スナップショットのドキュメント
+ * @returns デザイントークンの対応表
+ */
+export function restoreTokenRegistry(document: SnapshotDocument): TokenRegistry {
+    const registry = createTokenRegistry();
+    Object.keys(document.tokens.variables).forEach(id => registry.variables.set(id, document.tokens.variables[id]));
+    Object.keys(document.tokens.mixins).forEach(id => registry.mixins.set(id, document.tokens.mixins[id]));
+    return registry;
+}
+
+/**
+ * スナップショットからノードのアダプターを生成する
+ * @param snapshot - ノードのスナップショット
+ * @param parent - 親のノード
+ * @param nodes - 復元したノードの登録先（IDごと）
+ * @returns ノードのアダプター
+ */
+function createNodeAdapter(snapshot: NodeSnapshot, parent: SnapshotNodeAdapter | null, nodes: Map<string, SnapshotNodeAdapter>): SnapshotNodeAdapter {
+    const adapter: SnapshotNodeAdapter = {
+        ...snapshot.properties,
+        id: snapshot.id,
+        name: snapshot.name,
+        type: snapshot.type,
+        parent,
+        getStyledTextSegments: () => snapshot.segments || [],
+        getPluginData: () => '',
+        exportAsync: async options => {
+            if (snapshot.svg && options?.format === 'SVG_STRING') return snapshot.svg;
+            throw new Error(`${snapshot.name}: ${options?.format || 'PNG'} is not included in the snapshot`);
+        },
+        getMainComponentAsync: async () => (snapshot.mainComponentId && nodes.get(snapshot.mainComponentId)) || null
+    };
+    nodes.set(snapshot.id, adapter);
+
+    if (snapshot.children) {
+        adapter.children = snapshot.children.map(child => createNodeAdapter(child, adapter, nodes));
+        if (snapshot.type === 'COMPONENT_SET') {
+            adapter.defaultVariant = adapter.children.find(child => child.id === snapshot.defaultVariantId) || adapter.children[0];
+        }
+    }
+
+    return adapter;
+}
+
+/**
+ * スナップショットのドキュメントからフレームを復元する
+ * 復元したフレームはFigmaのノードと同じ形で generateElementData などのジェネレーターに渡せる
+ * （parseSnapshot で必須のプロパティを検証したドキュメントを渡す）
+ * @param document - スナップショットのドキュメント
+ * @returns 復元したフレーム
+ */
+export function restoreSnapshot(document: SnapshotDocument): FrameNode {
+    const nodes = new Map<string, SnapshotNodeAdapter>();
+    document.components.forEach(component => createNodeAdapter(component, null, nodes));
+    return createNodeAdapter(document.root, null, nodes) as unknown as FrameNode;
+}
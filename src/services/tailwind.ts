@@ -0,0 +1,257 @@
+import { Breakpoint, ElementData, ElementStyle } from './types';
+import { diffDeclarations, getPropertyName, toPropertyMap } from './scss-generator';
+import { isHookClass } from './settings';
+
+// スペーシングのスケール（px → クラスの値）
+const SPACING_SCALE: Record<string, string> = {
+    '0': '0', '1': 'px', '2': '0.5', '4': '1', '6': '1.5', '8': '2', '10': '2.5', '12': '3', '14': '3.5',
+    '16': '4', '20': '5', '24': '6', '28': '7', '32': '8', '36': '9', '40': '10', '44': '11', '48': '12',
+    '56': '14', '64': '16', '80': '20', '96': '24', '112': '28', '128': '32', '144': '36', '160': '40',
+    '176': '44', '192': '48', '208': '52', '224': '56', '240': '60', '256': '64', '288': '72', '320': '80', '384': '96'
+};
+
+// 角丸のスケール（px → クラスの値）
+const RADIUS_SCALE: Record<string, string> = {
+    '0': 'none', '2': 'sm', '4': '', '6': 'md', '8': 'lg', '12': 'xl', '16': '2xl', '24': '3xl', '9999': 'full'
+};
+
+// フォントの太さのスケール
+const FONT_WEIGHT_SCALE: Record<string, string> = {
+    '100': 'thin', '200': 'extralight', '300': 'light', '400': 'normal', '500': 'medium',
+    '600': 'semibold', '700': 'bold', '800': 'extrabold', '900': 'black'
+};
+
+// スペーシングのスケールを使用するプロパティ（プロパティ → クラスの接頭辞）
+const SPACING_PROPERTIES: Record<string, string> = {
+    'width': 'w',
+    'height': 'h',
+    'gap': 'gap',
+    'row-gap': 'gap-y',
+    'column-gap': 'gap-x',
+    'margin-top': 'mt',
+    'top': 'top',
+    'right': 'right',
+    'bottom': 'bottom',
+    'left': 'left'
+};
+
+// 任意の値で出力するプロパティ（プロパティ → クラスの接頭辞）
+const ARBITRARY_PROPERTIES: Record<string, string> = {
+    'min-width': 'min-w',
+    'max-width': 'max-w',
+    'min-height': 'min-h',
+    'max-height': 'max-h',
+    'font-size': 'text',
+    'font-family': 'font',
+    'line-height': 'leading',
+    'letter-spacing': 'tracking',
+    'padding-left': 'pl'
+};
+
+// 値が決まっている宣言のユーティリティクラス
+const KEYWORD_CLASSES: Record<string, string> = {
+    'display: flex': 'flex',
+    'display: grid': 'grid',
+    'display: block': 'block',
+    'display: none': 'hidden',
+    'flex-direction: row': 'flex-row',
+    'flex-direction: column': 'flex-col',
+    'flex-wrap: wrap': 'flex-wrap',
+    'flex-wrap: nowrap': 'flex-nowrap',
+    'justify-content: flex-start': 'justify-start',
+    'justify-content: center': 'justify-center',
+    'justify-content: flex-end': 'justify-end',
+    'justify-content: space-between': 'justify-between',
+    'align-items: flex-start': 'items-start',
+    'align-items: center': 'items-center',
+    'align-items: flex-end': 'items-end',
+    'align-items: baseline': 'items-baseline',
+    'align-items: stretch': 'items-stretch',
+    'align-self: flex-start': 'self-start',
+    'align-self: center': 'self-center',
+    'align-self: flex-end': 'self-end',
+    'align-self: stretch': 'self-stretch',
+    'flex: 1 1 0': 'flex-1',
+    'flex-grow: 1': 'grow',
+    'flex-grow: 0': 'grow-0',
+    'flex-shrink: 1': 'shrink',
+    'flex-shrink: 0': 'shrink-0',
+    'position: absolute': 'absolute',
+    'position: relative': 'relative',
+    'width: 100%': 'w-full',
+    'width: fit-content': 'w-fit',
+    'width: auto': 'w-auto',
+    'height: 100%': 'h-full',
+    'height: fit-content': 'h-fit',
+    'height: auto': 'h-auto',
+    'white-space: nowrap': 'whitespace-nowrap',
+    'text-align: left': 'text-left',
+    'text-align: center': 'text-center',
+    'text-align: right': 'text-right',
+    'text-align: justify': 'text-justify',
+    'text-decoration: underline': 'underline',
+    'text-decoration: line-through': 'line-through',
+    'text-decoration: none': 'no-underline',
+    'text-transform: uppercase': 'uppercase',
+    'text-transform: lowercase': 'lowercase',
+    'text-transform: capitalize': 'capitalize',
+    'text-transform: none': 'normal-case',
+    'font-style: italic': 'italic',
+    'font-style: normal': 'not-italic',
+    'border-radius: 50%': 'rounded-full',
+    'list-style: disc': 'list-disc',
+    'list-style: decimal': 'list-decimal'
+};
+
+/**
+ * 任意の値（[...]）に使える形に値を変換する
+ * スペースは _ に、ダブルクォートはシングルクォートに置き換える
+ * @param value - CSSの値
+ * @returns 任意の値の文字列
+ */
+function toArbitraryValue(value: string): string {
+    return value
+        .replace(/_/g, '\\_')
+        .replace(/"/g, '\'')
+        .replace(/\s*,\s*/g, ',')
+        .replace(/\s+/g, '_');
+}
+
+/**
+ * px の値をスケールのクラスに変換する（スケールにない場合は任意の値）
+ * @param prefix - クラスの接頭辞
+ * @param value - CSSの値
+ * @param scale - px → クラスの値 のスケール
+ * @returns ユーティリティクラス
+ */
+function formatScaledClass(prefix: string, value: string, scale: Record<string, string>): string {
+    const match = value.match(/^(-?)(\d+(?:\.\d+)?)px$/);
+    if (match && match[2] in scale) {
+        const scaled = scale[match[2]];
+        return `${match[1]}${prefix}${scaled ? `-${scaled}` : ''}`;
+    }
+    return `${prefix}-[${toArbitraryValue(value)}]`;
+}
+
+/**
+ * 色の値を任意の値のクラスに変換する
+ * 色と判別できない値（SCSS変数など）は color: の型指定を付ける
+ * @param prefix - クラスの接頭辞
+ * @param value - CSSの値
+ * @returns ユーティリティクラス
+ */
+function formatColorClass(prefix: string, value: string): string {
+    const hint = /^(#|rgb|hsl)/.test(value) ? '' : 'color:';
+    return `${prefix}-[${hint}${toArbitraryValue(value)}]`;
+}
+
+/**
+ * padding のショートハンドをユーティリティクラスに変換する
+ * 上下・左右が同じ場合は py/px、全て同じ場合は p にまとめる
+ * @param value - padding の値（"top right bottom left"）
+ * @returns ユーティリティクラスの配列
+ */
+function formatPaddingClasses(value: string): string[] {
+    const [top, right = top, bottom = top, left = right] = value.split(/\s+/);
+    if (top === right && top === bottom && top === left) {
+        return [formatScaledClass('p', top, SPACING_SCALE)];
+    }
+    if (top === bottom && left === right) {
+        return [formatScaledClass('py', top, SPACING_SCALE), formatScaledClass('px', left, SPACING_SCALE)];
+    }
+    return [
+        formatScaledClass('pt', top, SPACING_SCALE),
+        formatScaledClass('pr', right, SPACING_SCALE),
+        formatScaledClass('pb', bottom, SPACING_SCALE),
+        formatScaledClass('pl', left, SPACING_SCALE)
+    ];
+}
+
+/**
+ * スタイル宣言1つをユーティリティクラスに変換する
+ * - 値が決まっている宣言は対応するクラス
+ * - スケールがあるプロパティはスケールのクラス（合わない場合は任意の値）
+ * - 対応するクラスがないプロパティは任意のプロパティ（[property:value]）
+ * @param declaration - "property: value" 形式のスタイル
+ * @returns ユーティリティクラスの配列
+ */
+function toUtilityClasses(declaration: string): string[] {
+    if (!declaration || declaration.startsWith('@')) return [];
+    if (declaration in KEYWORD_CLASSES) return [KEYWORD_CLASSES[declaration]];
+
+    const property = getPropertyName(declaration);
+    const value = declaration.slice(declaration.indexOf(':') + 1).trim();
+
+    if (property in SPACING_PROPERTIES) return [formatScaledClass(SPACING_PROPERTIES[property], value, SPACING_SCALE)];
+    if (property in ARBITRARY_PROPERTIES) return [`${ARBITRARY_PROPERTIES[property]}-[${toArbitraryValue(value)}]`];
+
+    switch (property) {
+        case 'padding':
+            return formatPaddingClasses(value);
+        case 'color':
+            return [formatColorClass('text', value)];
+        case 'background-color':
+            return [formatColorClass('bg', value)];
+        case 'border-radius':
+            return [formatScaledClass('rounded', value, RADIUS_SCALE)];
+        case 'font-weight':
+            return [value in FONT_WEIGHT_SCALE ? `font-${FONT_WEIGHT_SCALE[value]}` : `font-[${toArbitraryValue(value)}]`];
+        case 'opacity': {
+            const percent = Math.round(Number(value) * 100);
+            return [percent % 5 === 0 ? `opacity-${percent}` : `opacity-[${value}]`];
+        }
+        default:
+            return [`[${property}:${toArbitraryValue(value)}]`];
+    }
+}
+
+/**
+ * スタイル宣言の配列をユーティリティクラスに変換する
+ * @param declarations - "property: value" 形式のスタイル配列
+ * @param variant - クラスの接頭辞にするバリアント（例: "max-[425px]:"）
+ * @returns ユーティリティクラスの配列
+ */
+export function toTailwindClasses(declarations: string[], variant = ''): string[] {
+    return [...new Set(declarations.flatMap(toUtilityClasses))].map(cls => `${variant}${cls}`);
+}
+
+/**
+ * 要素ごとのスタイルをユーティリティクラスに変換し、クラス名を置き換えたHTML要素のデータ構造を生成する
+ * - 最初の計測結果をベースとし、以降のブレークポイントは max-[幅px]: で変化したスタイルのみ出力
+ * - 段落間隔は [&+&]: で隣接する段落の間にだけ設定
+ * - フック用の接頭辞（js- など）で始まるクラス名はJavaScriptのフック用に残す
+ * @param elements - HTML要素のデータ構造
+ * @param measured - 幅の広い順に並んだブレークポイントごとの要素のスタイル
+ * @param hookClassPrefix - JavaScriptのフック用のクラス名の接頭辞
+ * @returns ユーティリティクラスを設定したHTML要素のデータ構造（元のデータは変更しない）
+ */
+export function applyTailwindClasses(elements: ElementData[], measured: { breakpoint?: Breakpoint, styles: ElementStyle[] }[], hookClassPrefix?: string): ElementData[] {
+    const utilities = new Map<ElementData, string[]>();
+    const effective = new Map<ElementData, Map<string, string>>();
+
+    measured.forEach(({ breakpoint, styles }, index) => {
+        const breakpointVariant = index > 0 && breakpoint ? `max-[${breakpoint.width}px]:` : '';
+
+        styles.forEach(({ element, declarations }) => {
+            const current = toPropertyMap(declarations);
+            const changed = index > 0
+                ? diffDeclarations(effective.get(element) || new Map(), current)
+                : declarations;
+            effective.set(element, current);
+
+            const variant = `${breakpointVariant}${element._text?.kind === 'paragraph' ? '[&+&]:' : ''}`;
+            utilities.set(element, [...(utilities.get(element) || []), ...toTailwindClasses(changed, variant)]);
+        });
+    });
+
+    function apply(element: ElementData): ElementData {
+        const hooks = (element.classes || []).filter(cls => isHookClass(cls, hookClassPrefix));
+        return {
+            ...element,
+            classes: [...hooks, ...(utilities.get(element) || [])],
+            children: element.children.map(apply)
+        };
+    }
+
+    return elements.map(apply);
+}
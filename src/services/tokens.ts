@@ -0,0 +1,362 @@
+import { ScssMixinToken, ScssVariableToken, StyleOptions, TokenRegistry } from './types';
+import { formatRGBA } from './color';
+import { formatBoxShadow } from './effects';
+import { convertDeclarationUnits } from './units';
+import { getIndentUnit } from './settings';
+
+/**
+ * テキストに関するVariableのフィールドと、SCSS変数名の接頭辞・CSSプロパティの対応
+ */
+export const TEXT_VARIABLE_FIELDS = {
+    fontSize: 'font-size',
+    fontWeight: 'font-weight',
+    fontFamily: 'font-family',
+    letterSpacing: 'letter-spacing',
+    lineHeight: 'line-height'
+} as const;
+
+export type TextVariableField = keyof typeof TEXT_VARIABLE_FIELDS;
+
+// フォントスタイル名とfont-weightの対応
+const fontWeightMap: Record<string, number> = {
+    thin: 100,
+    hairline: 100,
+    extralight: 200,
+    ultralight: 200,
+    light: 300,
+    regular: 400,
+    normal: 400,
+    medium: 500,
+    semibold: 600,
+    demibold: 600,
+    bold: 700,
+    extrabold: 800,
+    ultrabold: 800,
+    black: 900,
+    heavy: 900
+};
+
+/**
+ * 空のデザイントークンの対応表を生成する
+ * @returns デザイントークンの対応表
+ */
+export function createTokenRegistry(): TokenRegistry {
+    return {
+        variables: new Map(),
+        mixins: new Map()
+    };
+}
+
+/**
+ * スタイル名やVariable名をSCSSで使える名前に変換する（コンポーネントのクラス名にも使用）
+ * 例: "Primary/500" → "primary-500"
+ * @param name - スタイル名
+ * @returns 小文字・ハイフン区切りの名前
+ */
+export function slugify(name: string): string {
+    return name
+        .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * 接頭辞付きのトークン名を生成する（重複する場合は連番を付与）
+ * @param registry - デザイントークンの対応表
+ * @param prefix - 接頭辞（例: color）
+ * @param name - スタイル名
+ * @returns 重複しないトークン名
+ */
+function createTokenName(registry: TokenRegistry, prefix: string, name: string): string {
+    const slug = slugify(name).replace(new RegExp(`^${prefix}-`), '');
+    const base = slug ? `${prefix}-${slug}` : prefix;
+    const usedNames = new Set([
+        ...[...registry.variables.values()].map(token => token.name),
+        ...[...registry.mixins.values()].map(token => token.name)
+    ]);
+
+    let tokenName = base;
+    for (let i = 2; usedNames.has(tokenName); i++) {
+        tokenName = `${base}-${i}`;
+    }
+    return tokenName;
+}
+
+/**
+ * フォントスタイル名（例: "Semi Bold"）をfont-weightの数値に変換する
+ * @param style - フォントスタイル名
+ * @returns font-weight
+ */
+function fontStyleToWeight(style: string): number {
+    const key = style.toLowerCase().replace(/[\s_-]|italic/g, '');
+    return fontWeightMap[key] || 400;
+}
+
+/**
+ * テキストスタイルからmixinに含めるスタイルを生成する
+ * @param style - Figmaのテキストスタイル
+ * @returns "property: value" 形式のスタイル配列
+ */
+function generateTextStyleDeclarations(style: TextStyle): string[] {
+    const declarations = [
+        `font-size: ${style.fontSize}px`,
+        `font-weight: ${fontStyleToWeight(style.fontName.style)}`,
+        `font-family: "${style.fontName.family}"`
+    ];
+
+    if (style.letterSpacing.value !== 0) {
+        declarations.push(style.letterSpacing.unit === 'PERCENT'
+            ? `letter-spacing: ${style.letterSpacing.value / 100}em`
+            : `letter-spacing: ${style.letterSpacing.value}px`);
+    }
+    if (style.lineHeight.unit === 'PIXELS') {
+        declarations.push(`line-height: ${style.lineHeight.value}px`);
+    } else if (style.lineHeight.unit === 'PERCENT') {
+        declarations.push(`line-height: ${style.lineHeight.value / 100}`);
+    }
+    if (style.textDecoration !== 'NONE') {
+        declarations.push(`text-decoration: ${style.textDecoration.toLowerCase()}`);
+    }
+
+    return declarations;
+}
+
+/**
+ * Variableの値をSCSS変数の値に変換する
+ * @param value - Variableの値
+ * @param prefix - トークンの接頭辞（font-weight の場合は単位なし）
+ * @returns SCSS変数の値（変換できない場合はundefined）
+ */
+function formatVariableValue(value: VariableValue, prefix: string): string | undefined {
+    if (typeof value === 'number') {
+        return prefix === 'font-weight' ? `${value}` : `${value}px`;
+    }
+    if (typeof value === 'string') {
+        return prefix === 'font-family' ? `"${value}"` : value;
+    }
+    if (typeof value === 'object' && 'r' in value) {
+        return formatRGBA(value);
+    }
+    return undefined;
+}
+
+/**
+ * カラースタイルをSCSS変数として登録する
+ * @param registry - デザイントークンの対応表
+ * @param styleId - カラースタイルのID
+ */
+async function registerPaintStyle(registry: TokenRegistry, styleId: string): Promise<void> {
+    if (registry.variables.has(styleId)) return;
+
+    const style = await figma.getStyleByIdAsync(styleId);
+    if (!style || style.type !== 'PAINT') return;
+
+    const paint = (style as PaintStyle).paints.find((p): p is SolidPaint => p.type === 'SOLID' && p.visible !== false);
+    if (!paint) return;
+
+    registry.variables.set(styleId, {
+        name: createTokenName(registry, 'color', style.name),
+        value: formatRGBA(paint.color, paint.opacity)
+    });
+}
+
+/**
+ * テキストスタイルをmixinとして登録する
+ * @param registry - デザイントークンの対応表
+ * @param styleId - テキストスタイルのID
+ */
+async function registerTextStyle(registry: TokenRegistry, styleId: string): Promise<void> {
+    if (registry.mixins.has(styleId)) return;
+
+    const style = await figma.getStyleByIdAsync(styleId);
+    if (!style || style.type !== 'TEXT') return;
+
+    registry.mixins.set(styleId, {
+        name: createTokenName(registry, 'text', style.name),
+        declarations: generateTextStyleDeclarations(style as TextStyle)
+    });
+}
+
+/**
+ * エフェクトスタイルをSCSS変数として登録する
+ * @param registry - デザイントークンの対応表
+ * @param styleId - エフェクトスタイルのID
+ */
+async function registerEffectStyle(registry: TokenRegistry, styleId: string): Promise<void> {
+    if (registry.variables.has(styleId)) return;
+
+    const style = await figma.getStyleByIdAsync(styleId);
+    if (!style || style.type !== 'EFFECT') return;
+
+    const value = formatBoxShadow((style as EffectStyle).effects);
+    if (!value) return;
+
+    registry.variables.set(styleId, {
+        name: createTokenName(registry, 'shadow', style.name),
+        value
+    });
+}
+
+/**
+ * VariableをSCSS変数として登録する
+ * @param registry - デザイントークンの対応表
+ * @param variableId - VariableのID
+ * @param node - 値を解決する対象のノード（モードの解決に使用）
+ * @param prefix - トークンの接頭辞
+ */
+async function registerVariable(registry: TokenRegistry, variableId: string, node: SceneNode, prefix: string): Promise<void> {
+    if (registry.variables.has(variableId)) return;
+
+    const variable = await figma.variables.getVariableByIdAsync(variableId);
+    if (!variable) return;
+
+    const value = formatVariableValue(variable.resolveForConsumer(node).value, prefix);
+    if (!value) return;
+
+    registry.variables.set(variableId, {
+        name: createTokenName(registry, prefix, variable.name),
+        value
+    });
+}
+
+/**
+ * ノードとその子孫から、スタイルやVariableに紐づいた値を収集してデザイントークンとして登録する
+ * @param node - 起点となるFigmaノード
+ * @param registry - 登録先のデザイントークンの対応表
+ */
+export async function collectTokens(node: SceneNode, registry: TokenRegistry): Promise<void> {
+    if ('fillStyleId' in node && typeof node.fillStyleId === 'string' && node.fillStyleId) {
+        await registerPaintStyle(registry, node.fillStyleId);
+    }
+    if ('fills' in node && Array.isArray(node.fills)) {
+        for (const fill of node.fills as Paint[]) {
+            if (fill.type === 'SOLID' && fill.boundVariables?.color) {
+                await registerVariable(registry, fill.boundVariables.color.id, node, 'color');
+            }
+        }
+    }
+    if ('effectStyleId' in node && node.effectStyleId) {
+        await registerEffectStyle(registry, node.effectStyleId);
+    }
+    if (node.type === 'TEXT') {
+        // 文字範囲ごとにスタイルが異なる場合もあるため、文字範囲単位で収集
+        for (const segment of node.getStyledTextSegments(['fills', 'fillStyleId', 'textStyleId'])) {
+            if (segment.fillStyleId) {
+                await registerPaintStyle(registry, segment.fillStyleId);
+            }
+            for (const fill of segment.fills) {
+                if (fill.type === 'SOLID' && fill.boundVariables?.color) {
+                    await registerVariable(registry, fill.boundVariables.color.id, node, 'color');
+                }
+            }
+            if (segment.textStyleId) {
+                await registerTextStyle(registry, segment.textStyleId);
+            }
+        }
+        for (const [field, prefix] of Object.entries(TEXT_VARIABLE_FIELDS)) {
+            const aliases = node.boundVariables?.[field as TextVariableField];
+            if (aliases && aliases.length === 1) {
+                await registerVariable(registry, aliases[0].id, node, prefix);
+            }
+        }
+    }
+
+    if ('children' in node) {
+        for (const child of node.children) {
+            await collectTokens(child, registry);
+        }
+    }
+}
+
+/**
+ * 塗りに紐づくカラートークンを取得する
+ * @param styleId - ノードまたは文字範囲のカラースタイルのID
+ * @param fill - 対象の塗り
+ * @param tokens - デザイントークンの対応表
+ * @returns SCSS変数の参照（例: $color-primary）。紐づいていない場合はundefined
+ */
+export function findFillToken(styleId: string, fill: SolidPaint, tokens?: TokenRegistry): string | undefined {
+    if (!tokens) return undefined;
+
+    const token = (styleId && tokens.variables.get(styleId))
+        || (fill.boundVariables?.color && tokens.variables.get(fill.boundVariables.color.id));
+    return token ? `$${token.name}` : undefined;
+}
+
+/**
+ * ノードに紐づくエフェクトスタイルのトークンを取得する
+ * @param node - Figmaノード
+ * @param tokens - デザイントークンの対応表
+ * @returns SCSS変数の参照（例: $shadow-card）。紐づいていない場合はundefined
+ */
+export function findEffectToken(node: SceneNode, tokens?: TokenRegistry): string | undefined {
+    if (!tokens || !('effectStyleId' in node) || !node.effectStyleId) return undefined;
+
+    const token = tokens.variables.get(node.effectStyleId);
+    return token ? `$${token.name}` : undefined;
+}
+
+/**
+ * テキストスタイルのmixinを取得する
+ * @param styleId - テキストノードまたは文字範囲のテキストスタイルのID
+ * @param tokens - デザイントークンの対応表
+ * @returns mixinのトークン（紐づいていない場合はundefined）
+ */
+export function findTextMixin(styleId: string, tokens?: TokenRegistry): ScssMixinToken | undefined {
+    if (!tokens || !styleId) return undefined;
+    return tokens.mixins.get(styleId);
+}
+
+/**
+ * テキストノードのフィールドに紐づくVariableのトークンを取得する
+ * @param node - テキストノード
+ * @param field - テキストのフィールド名
+ * @param tokens - デザイントークンの対応表
+ * @returns SCSS変数の参照（紐づいていない場合はundefined）
+ */
+export function findTextVariable(node: TextNode, field: TextVariableField, tokens?: TokenRegistry): string | undefined {
+    const aliases = node.boundVariables?.[field];
+    if (!tokens || !aliases || aliases.length !== 1) return undefined;
+
+    const token = tokens.variables.get(aliases[0].id);
+    return token ? `$${token.name}` : undefined;
+}
+
+/**
+ * デザイントークンの対応表が空かどうかを判定する
+ * @param registry - デザイントークンの対応表
+ * @returns トークンが1つもない場合true
+ */
+export function isEmptyTokenRegistry(registry: TokenRegistry): boolean {
+    return registry.variables.size === 0 && registry.mixins.size === 0;
+}
+
+/**
+ * デザイントークンから _tokens.scss パーシャルの内容を生成する
+ * - SCSS変数（$color-*, $shadow-* など）
+ * - テキストスタイルのmixin（@mixin text-*）
+ * 長さはスタイルシートと同じく options.unit の単位に変換する
+ * @param registry - デザイントークンの対応表
+ * @param options - スタイル生成のオプション（長さの単位とインデント）
+ * @returns 生成されたSCSS文字列
+ */
+export function generateTokensSCSS(registry: TokenRegistry, options: StyleOptions = {}): string {
+    const byName = <T extends ScssVariableToken | ScssMixinToken>(a: T, b: T) => a.name.localeCompare(b.name);
+
+    const variables = [...registry.variables.values()]
+        .sort(byName)
+        .map(token => `$${convertDeclarationUnits(`${token.name}: ${token.value}`, options)};`)
+        .join('\n');
+
+    const indentUnit = getIndentUnit(options.indentSize);
+    const mixins = [...registry.mixins.values()]
+        .sort(byName)
+        .map(token => {
+            const declarations = token.declarations.map(declaration => convertDeclarationUnits(declaration, options));
+            return `@mixin ${token.name} {\n${declarations.map(declaration => `${indentUnit}${declaration};`).join('\n')}\n}\n`;
+        })
+        .join('\n');
+
+    return [variables && `${variables}\n`, mixins].filter(Boolean).join('\n');
+}
@@ -12,8 +12,142 @@ export interface ElementData {
   children: ElementData[];
   /** テキストコンテンツ */
   text?: string;
+  /** そのまま出力するマークアップ（インラインSVGなど） */
+  html?: string;
+  /** 子要素を改行・インデントせずに出力するかどうか（リッチテキスト用） */
+  inline?: boolean;
   /** Figmaのノードへの参照 */
   _node?: SceneNode;
+  /** リッチテキストから生成された要素の情報 */
+  _text?: RichTextPart;
+  /** 画像として書き出す形式（レイヤー名の [export] 指定。空文字の場合はノードの種類から決定） */
+  _export?: ExportFormat | '';
+  /** 背景画像として書き出したファイルのパス（画像の塗りを持つ img 以外の要素） */
+  _background?: string;
+  /** インラインSVGとして出力する場合のオプション */
+  _svg?: InlineSVGOptions;
+  /** コンポーネント（INSTANCE/COMPONENT）の情報 */
+  _component?: ComponentInfo;
+}
+
+/**
+ * コンポーネントのプロパティ（props）の定義
+ */
+export interface ComponentProp {
+  /** Figmaのプロパティのキー（例: "Label#12:0"） */
+  key: string;
+  /** propsの名前（キャメルケース） */
+  name: string;
+  /** プロパティの種類 */
+  type: 'TEXT' | 'BOOLEAN' | 'VARIANT';
+  /** デフォルト値 */
+  defaultValue: string | boolean;
+  /** バリアントの選択肢 */
+  options?: string[];
+}
+
+/**
+ * コンポーネント（INSTANCE/COMPONENT）の情報
+ */
+export interface ComponentInfo {
+  /** 同じコンポーネントを識別するID（コンポーネントセットまたはメインコンポーネントのID） */
+  id: string;
+  /** コンポーネント名（パスカルケース） */
+  name: string;
+  /** propsの定義 */
+  props: ComponentProp[];
+  /** インスタンスで指定されたpropsの値（Figmaのプロパティのキーごと） */
+  values: Record<string, string | boolean>;
+  /** ベースのスタイルに使用するデフォルトのバリアント（メインコンポーネント）の要素 */
+  base?: ElementData;
+  /** ブロックのクラス名 */
+  block: string;
+  /** バリアントから付与したモディファイアのクラス名 */
+  modifiers: string[];
+  /** :hover / :active などの状態のバリアント */
+  states: ComponentState[];
+}
+
+/**
+ * バリアントの値に対応するモディファイアのクラス名
+ */
+export interface VariantModifier {
+  /** バリアントのprops */
+  prop: ComponentProp;
+  /** バリアントの値 */
+  value: string;
+  /** モディファイアのクラス名（例: "button--large"） */
+  className: string;
+}
+
+/**
+ * コンポーネントの状態のバリアント（State=Hover など）
+ */
+export interface ComponentState {
+  /** 擬似クラス（例: ":hover"） */
+  pseudo: string;
+  /** props で状態を指定するときのモディファイアの名前（例: "hover"） */
+  modifier: string;
+  /** 状態のバリアントの要素 */
+  element: ElementData;
+  /** 比較の基準にする通常の状態のバリアントの要素 */
+  resting: ElementData;
+}
+
+/**
+ * インラインSVGの出力オプション
+ */
+export interface InlineSVGOptions {
+  /** 塗りと線の色を currentColor に置き換えるかどうか（レイヤー名の [currentcolor] 指定） */
+  currentColor: boolean;
+}
+
+/**
+ * 画像の書き出し形式
+ */
+export type ExportFormat = 'png' | 'jpg' | 'svg';
+
+/**
+ * 書き出したファイルを表すインターフェース
+ */
+export interface ExportedFile {
+  /** 書き出し先のパス（例: images/hero.png） */
+  path: string;
+  /** ファイルの内容 */
+  data: Uint8Array | string;
+}
+
+/**
+ * テキストノードの文字範囲ごとのスタイル
+ */
+export type TextSegment = Pick<StyledTextSegment,
+  | 'characters'
+  | 'start'
+  | 'end'
+  | 'fontSize'
+  | 'fontName'
+  | 'fontWeight'
+  | 'fills'
+  | 'fillStyleId'
+  | 'textStyleId'
+  | 'textDecoration'
+  | 'textCase'
+  | 'letterSpacing'
+  | 'lineHeight'
+  | 'hyperlink'
+  | 'listOptions'
+>;
+
+/**
+ * リッチテキストから生成された要素の情報を表すインターフェース
+ */
+export interface RichTextPart {
+  /** 元のテキストノード */
+  node: TextNode;
+  /** 要素の種類（文字範囲 / 段落 / リスト） */
+  kind: 'run' | 'paragraph' | 'list';
+  /** 文字範囲のスタイル（kind が run の場合） */
+  segment?: TextSegment;
 }
 
 /**
@@ -26,4 +160,360 @@ export interface ParsedNodeName {
   classes: string[];
   /** HTML属性のキーと値のペア */
   attributes: Record<string, string>;
-} 
\ No newline at end of file
+}
+
+/**
+ * レイヤー名の記法のエラー
+ */
+export interface LayerNameError {
+  /** エラーの内容 */
+  message: string;
+  /** レイヤー名でのエラーの開始位置 */
+  start: number;
+  /** レイヤー名でのエラーの終了位置 */
+  end: number;
+  /** 修正後のレイヤー名（簡単に直せる場合のみ） */
+  fix?: string;
+}
+
+/**
+ * レイヤー名の解析結果
+ */
+export interface LayerNameParseResult extends ParsedNodeName {
+  /** 解析中に見つかったエラー */
+  errors: LayerNameError[];
+}
+
+/**
+ * フレームのレイヤー名のチェックで見つかった問題
+ */
+export interface LintProblem extends LayerNameError {
+  /** ノードのID */
+  id: string;
+  /** フレームからのレイヤーのパス（例: "Top / section.hero / h2"） */
+  path: string;
+  /** レイヤー名 */
+  name: string;
+}
+
+/**
+ * セレクタごとに収集されたスタイルを表すインターフェース
+ */
+export interface StyleSheet {
+  /** 出力順のセレクタ一覧 */
+  selectors: string[];
+  /** セレクタごとのスタイル（"property: value" 形式） */
+  styles: Record<string, string[]>;
+  /** セレクタごとの競合したスタイル（同じセレクタの別の要素で値が異なり、採用しなかった宣言） */
+  conflicts?: Record<string, string[]>;
+}
+
+/**
+ * 要素ごとのスタイルを表すインターフェース
+ */
+export interface ElementStyle {
+  /** 対象の要素 */
+  element: ElementData;
+  /** 要素に対応するセレクタ */
+  selector: string;
+  /** "property: value" 形式のスタイル */
+  declarations: string[];
+}
+
+/**
+ * レスポンシブ出力のブレークポイントを表すインターフェース
+ */
+export interface Breakpoint {
+  /** ブレークポイント名（.is_{name} クラスの表示切り替えに使用） */
+  name: string;
+  /** フレームの幅（px） */
+  width: number;
+}
+
+/**
+ * デザイントークンとして出力するSCSS変数を表すインターフェース
+ */
+export interface ScssVariableToken {
+  /** 変数名（$を除く） */
+  name: string;
+  /** 変数の値 */
+  value: string;
+}
+
+/**
+ * デザイントークンとして出力するSCSSのmixinを表すインターフェース
+ */
+export interface ScssMixinToken {
+  /** mixin名 */
+  name: string;
+  /** mixinに含めるスタイル（"property: value" 形式） */
+  declarations: string[];
+}
+
+/**
+ * スタイル/Variable のIDとデザイントークンの対応表
+ */
+export interface TokenRegistry {
+  /** カラー・エフェクトスタイル、Variable のIDごとのSCSS変数 */
+  variables: Map<string, ScssVariableToken>;
+  /** テキストスタイルのIDごとのmixin */
+  mixins: Map<string, ScssMixinToken>;
+}
+
+/**
+ * スタイル生成時のオプション
+ */
+export interface StyleOptions {
+  /** 参照するデザイントークン（指定がない場合は値をそのまま出力） */
+  tokens?: TokenRegistry;
+  /** BEMのクラス名を &__element / &--modifier でネストして出力するかどうか */
+  nesting?: boolean;
+  /** 自動レイアウトのないフレームのレイアウトグリッド（列・行）をCSS Gridとして出力するかどうか */
+  layoutGrids?: boolean;
+  /** 長さの単位（指定がない場合は px） */
+  unit?: LengthUnit;
+  /** rem の基準になるルートのフォントサイズ（px、指定がない場合は16） */
+  rootFontSize?: number;
+  /** vw の基準になるデザインの幅（px） */
+  designWidth?: number;
+  /** PCとSPで異なるフォントサイズ・余白を clamp() で出力するかどうか（レスポンシブ出力の場合のみ） */
+  fluid?: boolean;
+  /** JavaScriptのフック用のクラス名の接頭辞（セレクタの対象外、指定がない場合は js-） */
+  hookClassPrefix?: string;
+  /** インデントのスペースの数（指定がない場合は2） */
+  indentSize?: number;
+}
+
+/**
+ * HTML要素のデータ構造の生成のオプション
+ */
+export interface MarkupOptions {
+  /** src の指定がない img 要素の画像のパス */
+  fallbackImageSrc?: string;
+  /** JavaScriptのフック用のクラス名の接頭辞（指定がない場合は js-） */
+  hookClassPrefix?: string;
+}
+
+/**
+ * 長さの単位
+ */
+export type LengthUnit = 'px' | 'rem' | 'vw';
+
+/**
+ * 出力ターゲットの名前
+ */
+export type OutputTargetName = 'scss' | 'css' | 'css-modules' | 'tailwind' | 'react' | 'vue' | 'astro';
+
+/**
+ * 出力ターゲットに渡す書き出し対象の情報
+ */
+export interface TargetContext {
+  /** 書き出し対象のフレーム */
+  frame: FrameNode;
+  /** フレームの子要素のHTML要素データ */
+  elements: ElementData[];
+  /** スタイル生成のオプション */
+  options: StyleOptions;
+  /** レスポンシブ出力で使用するブレークポイント（指定がない場合は現在の幅のみ） */
+  breakpoints?: Breakpoint[];
+}
+
+/**
+ * 出力ターゲットの生成結果
+ */
+export interface TargetOutput {
+  /** マークアップ */
+  html: string;
+  /** マークアップのファイル名 */
+  markupFileName: string;
+  /** 子コンポーネントなど、追加で出力するファイル */
+  files?: ExportedFile[];
+  /** スタイルシート */
+  styles: string;
+  /** スタイルシートのファイル名 */
+  styleFileName: string;
+  /** クラス名と参照するキーの対応（CSS Modulesの場合） */
+  classMap?: Record<string, string>;
+}
+
+/**
+ * フレームの書き出し結果
+ */
+export interface FrameExport extends TargetOutput {
+  /** 子コンポーネントなど、追加で出力するファイル */
+  files: ExportedFile[];
+  /** デザイントークンのSCSS（_tokens.scss、トークンがない場合は空文字） */
+  tokens: string;
+  /** 書き出した画像 */
+  assets: ExportedFile[];
+  /** 単体で表示できるHTMLドキュメント（出力しない場合は空文字） */
+  document: string;
+}
+
+/**
+ * ElementDataのツリーからマークアップとスタイルを生成する出力ターゲット
+ */
+export interface OutputTarget {
+  /** UIに表示する名前 */
+  label: string;
+  /** マークアップとスタイルを生成する */
+  generate(context: TargetContext): TargetOutput;
+}
+
+/**
+ * 書き出しの設定（ユーザーごと・ドキュメントごとに保存）
+ */
+export interface ExportSettings {
+  /** 出力ターゲット */
+  target: OutputTargetName;
+  /** ブレークポイント（PC/SPレイアウトの切り替えとレスポンシブ出力に使用） */
+  breakpoints: Breakpoint[];
+  /** レスポンシブ出力するかどうか */
+  responsive: boolean;
+  /** BEMのクラス名をネストして出力するかどうか */
+  nesting: boolean;
+  /** レイアウトグリッドをCSS Gridとして出力するかどうか */
+  layoutGrids: boolean;
+  /** 画像を書き出すかどうか */
+  assets: boolean;
+  /** 長さの単位 */
+  unit: LengthUnit;
+  /** rem の基準になるルートのフォントサイズ（px） */
+  rootFontSize: number;
+  /** PCとSPで異なるフォントサイズ・余白を clamp() で出力するかどうか */
+  fluid: boolean;
+  /** JavaScriptのフック用のクラス名の接頭辞 */
+  hookClassPrefix: string;
+  /** インデントのスペースの数 */
+  indentSize: number;
+  /** src の指定がない img 要素の画像のパス */
+  fallbackImageSrc: string;
+  /** レイヤー名の変更で画像に設定するプレースホルダーのURL（{width} と {height} はサイズに置き換える） */
+  placeholderUrl: string;
+  /** レイヤー名の変更で見出し・ボタン・リスト・ランドマークを推定するかどうか */
+  semanticNaming: boolean;
+  /** レイヤー名の変更でBEMのクラス名を付けるかどうか */
+  bemNaming: boolean;
+  /** アクセシビリティのチェック結果をHTMLのコメントとして出力するかどうか */
+  auditComment: boolean;
+  /** 単体で表示できるHTMLドキュメント（standalone.html）を出力するかどうか */
+  standaloneDocument: boolean;
+  /** HTMLドキュメントの lang 属性 */
+  lang: string;
+}
+
+/**
+ * レイヤー名の生成のオプション
+ */
+export interface NamingOptions {
+  /** 見出し・ボタン・リスト・ランドマークを推定するかどうか（false の場合は p/img/div のみ） */
+  semantic: boolean;
+  /** 親のブロック名から block__element のクラス名を付けるかどうか */
+  bem: boolean;
+  /** 画像に設定するプレースホルダーのURLのテンプレート */
+  placeholderUrl: string;
+}
+
+/**
+ * レイヤー名の変更内容
+ */
+export interface RenameChange {
+  /** ノードのID */
+  id: string;
+  /** 変更前のレイヤー名 */
+  from: string;
+  /** 変更後のレイヤー名 */
+  to: string;
+}
+
+/**
+ * ノードのスナップショット（JSONで保存できるノードのデータ）
+ */
+export interface NodeSnapshot {
+  /** ノードのID */
+  id: string;
+  /** レイヤー名 */
+  name: string;
+  /** ノードの種類 */
+  type: SceneNode['type'] | 'COMPONENT_SET';
+  /** ジェネレーターが参照するプロパティ（JSONで表せない値と figma.mixed の値は含まない） */
+  properties: Record<string, unknown>;
+  /** 文字範囲ごとのスタイル（TEXT のみ） */
+  segments?: TextSegment[];
+  /** インラインSVGとして書き出したSVG文字列 */
+  svg?: string;
+  /** メインコンポーネントのID（INSTANCE のみ、SnapshotDocument の components を参照） */
+  mainComponentId?: string;
+  /** デフォルトのバリアントのID（COMPONENT_SET のみ） */
+  defaultVariantId?: string;
+  /** 子ノード */
+  children?: NodeSnapshot[];
+}
+
+/**
+ * スナップショットから復元したノード（ジェネレーターが参照するFigmaノードのメンバーだけを持つ）
+ * プロパティはスナップショットの properties をそのまま持ち、ノードの種類ごとの必須のプロパティは読み込み時に検証する
+ */
+export interface SnapshotNodeAdapter {
+  id: string;
+  name: string;
+  type: NodeSnapshot['type'];
+  parent: SnapshotNodeAdapter | null;
+  children?: SnapshotNodeAdapter[];
+  /** デフォルトのバリアント（COMPONENT_SET のみ） */
+  defaultVariant?: SnapshotNodeAdapter;
+  /** 保存した文字範囲ごとのスタイルを返す */
+  getStyledTextSegments(fields: string[]): TextSegment[];
+  /** 常に空文字を返す */
+  getPluginData(key: string): string;
+  /** 保存したSVG文字列を返す（それ以外の形式は書き出せない） */
+  exportAsync(options?: { format?: string }): Promise<string>;
+  /** components から復元したメインコンポーネントを返す */
+  getMainComponentAsync(): Promise<SnapshotNodeAdapter | null>;
+  /** スナップショットに保存したノードのプロパティ */
+  [property: string]: unknown;
+}
+
+/**
+ * フレームのスナップショットのドキュメント（プラグインで書き出し、CLIで変換する）
+ */
+export interface SnapshotDocument {
+  /** スナップショットの形式のバージョン */
+  version: number;
+  /** 書き出し時の設定 */
+  settings: ExportSettings;
+  /** 書き出し時に収集したデザイントークン（スタイル・VariableのIDごと） */
+  tokens: {
+    variables: Record<string, ScssVariableToken>;
+    mixins: Record<string, ScssMixinToken>;
+  };
+  /** インスタンスが参照するコンポーネント（COMPONENT_SET または COMPONENT） */
+  components: NodeSnapshot[];
+  /** 書き出したフレーム */
+  root: NodeSnapshot;
+}
+
+/**
+ * アクセシビリティのチェック項目
+ * - contrast: テキストと背景のコントラスト比
+ * - img-alt: img の代替テキスト
+ * - heading-order: 見出しのレベルの飛び
+ * - clickable: ボタンのような見た目の button/a 以外の要素
+ * - tap-target: SPレイアウトでのタップ領域の大きさ
+ * - landmark: ランドマーク要素（header/main/footer）
+ */
+export type AccessibilityRule = 'contrast' | 'img-alt' | 'heading-order' | 'clickable' | 'tap-target' | 'landmark';
+
+/**
+ * アクセシビリティのチェックで見つかった問題
+ */
+export interface AccessibilityIssue {
+  /** チェック項目 */
+  rule: AccessibilityRule;
+  /** 問題の内容 */
+  message: string;
+  /** ノードのID（フレーム全体の問題の場合はundefined） */
+  id?: string;
+  /** フレームからのレイヤーのパス */
+  path?: string;
+}
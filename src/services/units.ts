@@ -0,0 +1,127 @@
+import { StyleOptions, StyleSheet } from './types';
+
+// rem の基準になるルートのフォントサイズのデフォルト
+const DEFAULT_ROOT_FONT_SIZE = 16;
+
+// PCとSPで値が異なる場合に clamp() で出力するプロパティ
+export const FLUID_PROPERTIES = ['font-size', 'padding'];
+
+// 単位を変換しないプロパティ（細い線が消えないよう px のまま）
+const FIXED_UNIT_PROPERTIES = /^(border(-(top|right|bottom|left))?|outline)$/;
+
+/**
+ * 数値を小数第4位までに丸める
+ * @param value - 数値
+ * @returns 丸めた数値
+ */
+function round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * px の長さを指定の単位の値に変換する
+ * - rem: ルートのフォントサイズで割った値
+ * - vw: デザインの幅に対する割合（デザインの幅がない場合は px のまま）
+ * @param px - px の長さ
+ * @param options - スタイル生成のオプション
+ * @returns 変換した長さ（0の場合は単位なし）
+ */
+export function formatLength(px: number, options: StyleOptions = {}): string {
+    if (options.unit === 'rem' || options.unit === 'vw') {
+        if (px === 0) return '0';
+        if (options.unit === 'rem') return `${round(px / (options.rootFontSize || DEFAULT_ROOT_FONT_SIZE))}rem`;
+        if (options.designWidth) return `${round(px / options.designWidth * 100)}vw`;
+    }
+    return `${round(px)}px`;
+}
+
+/**
+ * 値に含まれる px の長さを全て指定の単位に変換する
+ * url() の中（画像のファイル名など）は変換しない
+ * @param value - CSSの値
+ * @param options - スタイル生成のオプション
+ * @returns 変換した値
+ */
+function convertValueUnits(value: string, options: StyleOptions): string {
+    return value.replace(/url\([^)]*\)|(-?\d*\.?\d+)px\b/g, (match, length?: string) =>
+        length === undefined ? match : formatLength(Number(length), options)
+    );
+}
+
+/**
+ * スタイル宣言の px の長さを指定の単位に変換する
+ * border / outline の太さは px のまま出力する
+ * @param declaration - "property: value" 形式のスタイル
+ * @param options - スタイル生成のオプション
+ * @returns 変換したスタイル
+ */
+export function convertDeclarationUnits(declaration: string, options: StyleOptions = {}): string {
+    if (!options.unit || options.unit === 'px' || declaration.startsWith('@')) return declaration;
+
+    const index = declaration.indexOf(':');
+    if (index < 0 || FIXED_UNIT_PROPERTIES.test(declaration.slice(0, index).trim())) return declaration;
+    return `${declaration.slice(0, index)}:${convertValueUnits(declaration.slice(index + 1), options)}`;
+}
+
+/**
+ * セレクタごとのスタイルの px の長さを指定の単位に変換する
+ * @param sheet - セレクタごとのスタイル
+ * @param options - スタイル生成のオプション
+ * @returns 変換したスタイル（元のデータは変更しない）
+ */
+export function convertStyleSheetUnits(sheet: StyleSheet, options: StyleOptions = {}): StyleSheet {
+    const styles: Record<string, string[]> = {};
+    sheet.selectors.forEach(selector => {
+        styles[selector] = (sheet.styles[selector] || []).map(declaration => convertDeclarationUnits(declaration, options));
+    });
+    return { ...sheet, styles };
+}
+
+/**
+ * 2つの画面幅での長さから、その間で線形に変化する clamp() を生成する
+ * 最小値・最大値は px 以外の単位の場合、文字の拡大に追従するよう rem で出力する
+ * @param wide - 広い画面幅での長さ（px）
+ * @param narrow - 狭い画面幅での長さ（px）
+ * @param wideWidth - 広い画面幅（px）
+ * @param narrowWidth - 狭い画面幅（px）
+ * @param options - スタイル生成のオプション
+ * @returns clamp() の値
+ */
+function formatFluidLength(wide: number, narrow: number, wideWidth: number, narrowWidth: number, options: StyleOptions): string {
+    const boundOptions: StyleOptions = { ...options, unit: options.unit && options.unit !== 'px' ? 'rem' : 'px' };
+    const slope = (wide - narrow) / (wideWidth - narrowWidth);
+    const intercept = narrow - slope * narrowWidth;
+    const preferred = `${round(slope * 100)}vw ${intercept < 0 ? '-' : '+'} ${formatLength(Math.abs(intercept), boundOptions)}`;
+
+    return `clamp(${formatLength(Math.min(wide, narrow), boundOptions)}, ${preferred}, ${formatLength(Math.max(wide, narrow), boundOptions)})`;
+}
+
+/**
+ * 2つの画面幅での宣言から、値を clamp() にした宣言を生成する
+ * padding のように複数の値を持つ場合は、異なる値のみ clamp() にする
+ * @param wide - 広い画面幅での "property: value" 形式のスタイル
+ * @param narrow - 狭い画面幅での "property: value" 形式のスタイル
+ * @param wideWidth - 広い画面幅（px）
+ * @param narrowWidth - 狭い画面幅（px）
+ * @param options - スタイル生成のオプション
+ * @returns clamp() にした宣言（px の値でないなど変換できない場合はundefined）
+ */
+export function formatFluidDeclaration(wide: string, narrow: string, wideWidth: number, narrowWidth: number, options: StyleOptions = {}): string | undefined {
+    if (wideWidth === narrowWidth) return undefined;
+
+    const property = wide.slice(0, wide.indexOf(':')).trim();
+    const wideValues = wide.slice(wide.indexOf(':') + 1).trim().split(/\s+/);
+    const narrowValues = narrow.slice(narrow.indexOf(':') + 1).trim().split(/\s+/);
+    if (wideValues.length !== narrowValues.length) return undefined;
+
+    const lengths = wideValues.map((value, index) => [value, narrowValues[index]].map(part => part.match(/^(-?\d*\.?\d+)px$/)));
+    if (lengths.some(([wideMatch, narrowMatch]) => !wideMatch || !narrowMatch)) return undefined;
+
+    const values = lengths.map(([wideMatch, narrowMatch]) => {
+        const [wideLength, narrowLength] = [Number((wideMatch as RegExpMatchArray)[1]), Number((narrowMatch as RegExpMatchArray)[1])];
+        return wideLength === narrowLength
+            ? formatLength(wideLength, options)
+            : formatFluidLength(wideLength, narrowLength, wideWidth, narrowWidth, options);
+    });
+    return `${property}: ${values.join(' ')}`;
+}
@@ -0,0 +1,79 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { describe, expect, it } from 'vitest';
+import { auditAccessibility } from '../src/services/accessibility';
+import { generateElementData } from '../src/services/html-generator';
+import { parseSnapshot, restoreSnapshot } from '../src/services/snapshot';
+import { AccessibilityRule, NodeSnapshot, SnapshotDocument } from '../src/services/types';
+
+// フィクスチャのカード（h2 の見出し、本文、リンク）
+const fixture = readFileSync(resolve(__dirname, 'fixtures/card.json'), 'utf8');
+
+/**
+ * カードの子レイヤー（見出し・本文・リンク）を書き換えてフレームのアクセシビリティをチェックする
+ * スナップショットのフレームはリサイズできないため、タップ領域は現在のレイアウトで計測する
+ * @param rule - 取得するチェック項目
+ * @param modify - カードの子レイヤーを書き換える関数
+ * @returns 指定したチェック項目の問題
+ */
+function audit(rule: AccessibilityRule, modify: (layers: NodeSnapshot[]) => void = () => {}) {
+    const document: SnapshotDocument = JSON.parse(fixture);
+    modify(document.root.children?.[0].children || []);
+    const frame = restoreSnapshot(parseSnapshot(JSON.stringify(document)));
+    const elements = frame.children.map(child => generateElementData(child));
+    return auditAccessibility(frame, elements).filter(issue => issue.rule === rule);
+}
+
+/**
+ * テキストレイヤーの文字色を書き換える
+ * @param layer - テキストレイヤー
+ * @param gray - グレーの明るさ（0〜1）
+ */
+function setTextGray(layer: NodeSnapshot, gray: number) {
+    const fills: SolidPaint[] = [{ type: 'SOLID', visible: true, opacity: 1, blendMode: 'NORMAL', color: { r: gray, g: gray, b: gray } }];
+    layer.properties.fills = fills;
+    layer.segments?.forEach(segment => {
+        segment.fills = fills;
+    });
+}
+
+describe('auditAccessibility', () => {
+    it('フィクスチャのテキストはコントラスト比の基準を満たす', () => {
+        expect(audit('contrast')).toEqual([]);
+    });
+
+    it('背景とのコントラスト比が WCAG AA を下回るテキストを報告する', () => {
+        // 白の背景に対する rgb(204, 204, 204) のコントラスト比: (1 + 0.05) / (0.6038 + 0.05)
+        expect(audit('contrast', ([, body]) => setTextGray(body, 0.8))).toEqual([{
+            rule: 'contrast',
+            message: 'コントラスト比 1.61:1 が WCAG AA の基準（4.5:1）を下回っています',
+            id: '1:2',
+            path: 'Card / article.card / p.card__body'
+        }]);
+    });
+
+    it('大きなテキストは緩い基準でチェックする', () => {
+        // rgb(128, 128, 128) は白に対して約 3.98:1 で、24px の見出しの基準（3:1）は満たし、16px の本文の基準（4.5:1）は満たさない
+        expect(audit('contrast', ([title, body]) => {
+            setTextGray(title, 0.5);
+            setTextGray(body, 0.5);
+        }).map(issue => issue.id)).toEqual(['1:2']);
+    });
+
+    it('見出しのレベルが飛んでいる場合に報告する', () => {
+        expect(audit('heading-order', ([, body]) => {
+            body.name = 'h4.card__body';
+        })).toEqual([{
+            rule: 'heading-order',
+            message: 'h2 の次が h4 で、見出しのレベルが飛んでいます',
+            id: '1:2',
+            path: 'Card / article.card / h4.card__body'
+        }]);
+    });
+
+    it('次のレベルの見出しは報告しない', () => {
+        expect(audit('heading-order', ([, body]) => {
+            body.name = 'h3.card__body';
+        })).toEqual([]);
+    });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { escapeAttribute, escapeHTML, serializeAttributes, toOutputTagName } from '../src/services/html-serializer';
+
+describe('escapeHTML', () => {
+    it('& < > をエスケープする', () => {
+        expect(escapeHTML('<a> & <b>')).toBe('&lt;a&gt; &amp; &lt;b&gt;');
+    });
+
+    it('エスケープ済みの文字列の & も二重にエスケープする', () => {
+        expect(escapeHTML('&amp;')).toBe('&amp;amp;');
+    });
+});
+
+describe('escapeAttribute', () => {
+    it('ダブルクォートもエスケープする', () => {
+        expect(escapeAttribute('say "hi" & <bye>')).toBe('say &quot;hi&quot; &amp; &lt;bye&gt;');
+    });
+});
+
+describe('serializeAttributes', () => {
+    it('クラス名と属性を属性文字列に変換する', () => {
+        expect(serializeAttributes(['card', 'card--large'], { id: 'main', 'data-title': 'A "quoted" <title>' }))
+            .toBe(' class="card card--large" id="main" data-title="A &quot;quoted&quot; &lt;title&gt;"');
+    });
+
+    it('値が空のブール属性は属性名だけで出力し、それ以外は空の値を出力する', () => {
+        expect(serializeAttributes([], { disabled: '', alt: '' })).toBe(' disabled alt=""');
+    });
+
+    it('属性名として無効な属性は出力しない', () => {
+        expect(serializeAttributes([], { 'on"click': 'alert(1)', 'aria label': 'x', title: 'ok' })).toBe(' title="ok"');
+    });
+
+    it('属性がない場合は空文字を返す', () => {
+        expect(serializeAttributes()).toBe('');
+    });
+});
+
+describe('toOutputTagName', () => {
+    it('タグ名として無効な場合は div にする', () => {
+        expect(toOutputTagName('Rectangle 1')).toBe('div');
+        expect(toOutputTagName('my-widget')).toBe('my-widget');
+    });
+});
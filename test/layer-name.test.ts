@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { isLayerNameSyntax, parseLayerName } from '../src/services/layer-name';
+
+describe('parseLayerName', () => {
+    it('タグ名・クラス名・ID・属性を抽出する', () => {
+        expect(parseLayerName('div.class1#myId.class2[attr1="value1"][disabled]')).toEqual({
+            tag: 'div',
+            classes: ['class1', 'class2'],
+            attributes: { id: 'myId', attr1: 'value1', disabled: '' },
+            errors: []
+        });
+    });
+
+    it('属性値の中の . や # を区切りとして扱わない', () => {
+        expect(parseLayerName('a.link[href="https://example.com/#top"]')).toMatchObject({
+            tag: 'a',
+            classes: ['link'],
+            attributes: { href: 'https://example.com/#top' },
+            errors: []
+        });
+    });
+
+    it('タグ名を省略した場合は div にする', () => {
+        expect(parseLayerName('.card')).toMatchObject({ tag: 'div', classes: ['card'] });
+    });
+
+    it('空のクラス名を前後の空白を含めた位置付きで報告し、修正後のレイヤー名を付ける', () => {
+        expect(parseLayerName('  div..card').errors).toEqual([
+            { message: '. の後にクラス名がありません', start: 5, end: 6, fix: '  div.card' }
+        ]);
+    });
+
+    it('大文字のタグ名を小文字に直す修正を付ける', () => {
+        const result = parseLayerName('DIV.card');
+        expect(result.tag).toBe('DIV');
+        expect(result.errors).toEqual([
+            { message: 'タグ名 "DIV" は小文字で記述してください', start: 0, end: 3, fix: 'div.card' }
+        ]);
+    });
+
+    it('タグ名として無効な場合は div のままにする', () => {
+        const result = parseLayerName('Rectangle 1.card');
+        expect(result.tag).toBe('div');
+        expect(result.errors.map(error => error.message)).toEqual(['タグ名 "Rectangle 1" に使用できない文字が含まれています']);
+    });
+});
+
+describe('isLayerNameSyntax', () => {
+    it.each([
+        '.card',
+        '#main',
+        '[hidden]',
+        'section.hero',
+        'header',
+        'my-widget.card'
+    ])('"%s" をレイヤー名の記法として扱う', name => {
+        expect(isLayerNameSyntax(name)).toBe(true);
+    });
+
+    it.each([
+        'Frame 12',
+        'Rectangle',
+        'Button',
+        'my-widget',
+        'hero-image'
+    ])('"%s" をレイヤー名の記法として扱わない', name => {
+        expect(isLayerNameSyntax(name)).toBe(false);
+    });
+});
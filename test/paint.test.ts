@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { formatBackgroundLayer, formatBlendMode, formatGradientPaint, formatSolidPaint, isVisiblePaint } from '../src/services/paint';
+
+// 変換行列が単位行列のグラデーション（左端から右端、中心が要素の中心）
+const IDENTITY: Transform = [[1, 0, 0], [0, 1, 0]];
+
+/**
+ * 赤から青へのグラデーションの塗りを生成する
+ * @param type - グラデーションの種類
+ * @param opacity - 塗りの不透明度
+ * @returns グラデーションの塗り
+ */
+function gradient(type: GradientPaint['type'], opacity = 1): GradientPaint {
+    return {
+        type,
+        opacity,
+        gradientTransform: IDENTITY,
+        gradientStops: [
+            { position: 0, color: { r: 1, g: 0, b: 0, a: 1 } },
+            { position: 1, color: { r: 0, g: 0, b: 1, a: 1 } }
+        ]
+    };
+}
+
+describe('formatSolidPaint', () => {
+    it('0〜1の色と不透明度を rgba() にする', () => {
+        expect(formatSolidPaint({ type: 'SOLID', color: { r: 1, g: 0.5, b: 0 }, opacity: 0.5 })).toBe('rgba(255, 128, 0, 0.5)');
+    });
+});
+
+describe('formatGradientPaint', () => {
+    it('線形グラデーションのハンドルの向きを角度にし、停止点をグラデーションラインに投影する', () => {
+        expect(formatGradientPaint(gradient('GRADIENT_LINEAR'), 200, 100))
+            .toBe('linear-gradient(90deg, rgba(255, 0, 0, 1) 0%, rgba(0, 0, 255, 1) 100%)');
+    });
+
+    it('塗りの不透明度を停止点の色に掛ける', () => {
+        expect(formatGradientPaint(gradient('GRADIENT_LINEAR', 0.5), 200, 100))
+            .toBe('linear-gradient(90deg, rgba(255, 0, 0, 0.5) 0%, rgba(0, 0, 255, 0.5) 100%)');
+    });
+
+    it('円形グラデーションの半径を要素のサイズから求める', () => {
+        expect(formatGradientPaint(gradient('GRADIENT_RADIAL'), 200, 100))
+            .toBe('radial-gradient(ellipse 100px 50px at 50% 50%, rgba(255, 0, 0, 1) 0%, rgba(0, 0, 255, 1) 100%)');
+    });
+
+    it('角度グラデーションを conic-gradient() にする', () => {
+        expect(formatGradientPaint(gradient('GRADIENT_ANGULAR'), 200, 100))
+            .toBe('conic-gradient(from 90deg at 50% 50%, rgba(255, 0, 0, 1) 0%, rgba(0, 0, 255, 1) 100%)');
+    });
+});
+
+describe('formatBackgroundLayer', () => {
+    const red: SolidPaint = { type: 'SOLID', color: { r: 1, g: 0, b: 0 } };
+
+    it('単色は最下層以外では linear-gradient() で重ねる', () => {
+        expect(formatBackgroundLayer(red, 100, 100, true)).toBe('rgba(255, 0, 0, 1)');
+        expect(formatBackgroundLayer(red, 100, 100, false)).toBe('linear-gradient(rgba(255, 0, 0, 1), rgba(255, 0, 0, 1))');
+    });
+
+    it('画像の塗りは対象外にする', () => {
+        expect(formatBackgroundLayer({ type: 'IMAGE', scaleMode: 'FILL', imageHash: null }, 100, 100, true)).toBeUndefined();
+    });
+});
+
+describe('isVisiblePaint', () => {
+    it('非表示と不透明度0の塗りを表示されていないものとして扱う', () => {
+        expect(isVisiblePaint({ type: 'SOLID', color: { r: 0, g: 0, b: 0 } })).toBe(true);
+        expect(isVisiblePaint({ type: 'SOLID', color: { r: 0, g: 0, b: 0 }, visible: false })).toBe(false);
+        expect(isVisiblePaint({ type: 'SOLID', color: { r: 0, g: 0, b: 0 }, opacity: 0 })).toBe(false);
+    });
+});
+
+describe('formatBlendMode', () => {
+    it('通常の合成は出力しない', () => {
+        expect(formatBlendMode('MULTIPLY')).toBe('multiply');
+        expect(formatBlendMode('PASS_THROUGH')).toBeUndefined();
+        expect(formatBlendMode(undefined)).toBeUndefined();
+    });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { generateRichTextData } from '../src/services/rich-text';
+import { TextSegment } from '../src/services/types';
+
+/**
+ * 文字範囲のスタイルを生成する（指定しないプロパティは通常のテキストのスタイル）
+ * @param characters - 文字列
+ * @param style - 上書きするスタイル
+ * @returns 文字範囲のスタイル（start / end は textNode で設定する）
+ */
+function segment(characters: string, style: Partial<TextSegment> = {}): TextSegment {
+    return {
+        characters,
+        start: 0,
+        end: 0,
+        fontSize: 16,
+        fontName: { family: 'Inter', style: 'Regular' },
+        fontWeight: 400,
+        fills: [{ type: 'SOLID', color: { r: 0, g: 0, b: 0 } }],
+        fillStyleId: '',
+        textStyleId: '',
+        textDecoration: 'NONE',
+        textCase: 'ORIGINAL',
+        letterSpacing: { unit: 'PIXELS', value: 0 },
+        lineHeight: { unit: 'AUTO' },
+        hyperlink: null,
+        listOptions: { type: 'NONE' },
+        ...style
+    };
+}
+
+/**
+ * 文字範囲のスタイルを返すテキストノードを生成する
+ * @param segments - 文字範囲のスタイル
+ * @param paragraphSpacing - 段落間隔
+ * @returns テキストノード
+ */
+function textNode(segments: TextSegment[], paragraphSpacing = 0): TextNode {
+    let start = 0;
+    const ranges = segments.map(part => {
+        const range = { ...part, start, end: start + part.characters.length };
+        start = range.end;
+        return range;
+    });
+    return {
+        id: '1:2',
+        characters: ranges.map(range => range.characters).join(''),
+        paragraphSpacing,
+        getStyledTextSegments: () => ranges
+    } as unknown as TextNode;
+}
+
+describe('generateRichTextData', () => {
+    it('単一のスタイルで改行を含まない場合は通常のテキストとして扱う', () => {
+        expect(generateRichTextData(textNode([segment('Hello')]), 'p', ['card__body'])).toBeUndefined();
+    });
+
+    it('ベースより太い文字範囲を strong、リンクを a にする', () => {
+        const result = generateRichTextData(textNode([
+            segment('Read the '),
+            segment('docs', { hyperlink: { type: 'URL', value: 'https://example.com' } }),
+            segment(' now', { fontWeight: 700 })
+        ]), 'p', ['card__body']);
+
+        expect(result).toMatchObject({
+            tag: 'p',
+            inline: true,
+            children: [
+                { tag: '#text', text: 'Read the ' },
+                { tag: 'a', classes: [], attributes: { href: 'https://example.com' }, text: 'docs' },
+                { tag: 'strong', classes: ['card__body-run-1'], text: ' now' }
+            ]
+        });
+    });
+
+    it('Shift+Enter の改行を br にする', () => {
+        const result = generateRichTextData(textNode([segment('first\u2028second')]), 'p', ['card__body']);
+        expect(result?.children.map(child => child.tag)).toEqual(['#text', 'br', '#text']);
+    });
+
+    it('段落間隔がある場合は段落ごとに p にし、p の中に置けないため div にする', () => {
+        const result = generateRichTextData(textNode([segment('first\nsecond')], 12), 'p', ['card__body']);
+        expect(result).toMatchObject({
+            tag: 'div',
+            inline: false,
+            children: [
+                { tag: 'p', classes: ['card__body-paragraph'], children: [{ tag: '#text', text: 'first' }] },
+                { tag: 'p', classes: ['card__body-paragraph'], children: [{ tag: '#text', text: 'second' }] }
+            ]
+        });
+    });
+
+    it('連続するリストの段落を同じリストにまとめる', () => {
+        const result = generateRichTextData(textNode([
+            segment('Intro\n'),
+            segment('one\ntwo', { listOptions: { type: 'UNORDERED' } })
+        ]), 'div', ['card']);
+
+        expect(result).toMatchObject({
+            tag: 'div',
+            children: [
+                { tag: '#text', text: 'Intro' },
+                {
+                    tag: 'ul',
+                    classes: ['card__list'],
+                    children: [
+                        { tag: 'li', children: [{ tag: '#text', text: 'one' }] },
+                        { tag: 'li', children: [{ tag: '#text', text: 'two' }] }
+                    ]
+                }
+            ]
+        });
+    });
+});
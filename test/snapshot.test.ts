@@ -0,0 +1,36 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { describe, expect, it } from 'vitest';
+import { exportSnapshot } from '../src/services/exporter';
+import { parseSnapshot } from '../src/services/snapshot';
+
+// プラグインの "Export snapshot" で書き出したものと同じ形式のフィクスチャ
+const fixture = readFileSync(resolve(__dirname, 'fixtures/card.json'), 'utf8');
+
+describe('parseSnapshot', () => {
+    it('必須のプロパティが欠けたノードをパス付きで報告する', () => {
+        const document = JSON.parse(fixture);
+        delete document.root.children[0].properties.fillStyleId;
+        delete document.root.children[0].children[0].properties.relativeTransform;
+
+        expect(() => parseSnapshot(JSON.stringify(document))).toThrowError(
+            'Invalid snapshot:\n' +
+            '- /Card/article.card (FRAME): missing fillStyleId\n' +
+            '- /Card/article.card/h2.card__title (TEXT): missing relativeTransform'
+        );
+    });
+
+    it('異なるバージョンのスナップショットを読み込まない', () => {
+        const document = { ...JSON.parse(fixture), version: 0 };
+        expect(() => parseSnapshot(JSON.stringify(document))).toThrowError('Unsupported snapshot version');
+    });
+});
+
+describe('exportSnapshot', () => {
+    it.each(['scss', 'tailwind', 'react'] as const)('フィクスチャから %s を生成する', async target => {
+        const document = parseSnapshot(fixture);
+        const output = await exportSnapshot(document, { ...document.settings, target });
+        expect(output.html).toMatchSnapshot('html');
+        expect(output.styles).toMatchSnapshot('styles');
+    });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { toTailwindClasses } from '../src/services/tailwind';
+
+describe('toTailwindClasses', () => {
+    it('値が決まっている宣言を対応するクラスにする', () => {
+        expect(toTailwindClasses(['display: flex', 'flex-direction: column', 'align-items: center', 'width: 100%']))
+            .toEqual(['flex', 'flex-col', 'items-center', 'w-full']);
+    });
+
+    it('スケールにある値はスケールのクラス、ない値は任意の値にする', () => {
+        expect(toTailwindClasses(['gap: 8px', 'width: 13px', 'top: -16px', 'border-radius: 4px', 'border-radius: 10px']))
+            .toEqual(['gap-2', 'w-[13px]', '-top-4', 'rounded', 'rounded-[10px]']);
+    });
+
+    it('padding のショートハンドを上下・左右や全体のクラスにまとめる', () => {
+        expect(toTailwindClasses(['padding: 16px'])).toEqual(['p-4']);
+        expect(toTailwindClasses(['padding: 16px 24px'])).toEqual(['py-4', 'px-6']);
+        expect(toTailwindClasses(['padding: 4px 8px 12px 16px'])).toEqual(['pt-1', 'pr-2', 'pb-3', 'pl-4']);
+    });
+
+    it('色と判別できない値には color: の型指定を付ける', () => {
+        expect(toTailwindClasses(['color: rgba(0, 0, 0, 0.5)', 'background-color: $primary']))
+            .toEqual(['text-[rgba(0,0,0,0.5)]', 'bg-[color:$primary]']);
+    });
+
+    it('任意の値の空白とダブルクォートを置き換える', () => {
+        expect(toTailwindClasses(['font-family: "Noto Sans JP", sans-serif'])).toEqual(['font-[\'Noto_Sans_JP\',sans-serif]']);
+    });
+
+    it('フォントの太さと不透明度をスケールのクラスにする', () => {
+        expect(toTailwindClasses(['font-weight: 700', 'font-weight: 450', 'opacity: 0.5', 'opacity: 0.33']))
+            .toEqual(['font-bold', 'font-[450]', 'opacity-50', 'opacity-[0.33]']);
+    });
+
+    it('対応するクラスがないプロパティは任意のプロパティにする', () => {
+        expect(toTailwindClasses(['mix-blend-mode: multiply'])).toEqual(['[mix-blend-mode:multiply]']);
+    });
+
+    it('重複を除いてバリアントの接頭辞を付ける', () => {
+        expect(toTailwindClasses(['padding: 8px', 'padding: 8px', '@include text-body'], 'max-[425px]:')).toEqual(['max-[425px]:p-2']);
+    });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { convertDeclarationUnits, formatFluidDeclaration, formatLength } from '../src/services/units';
+
+describe('formatLength', () => {
+    it('ルートのフォントサイズで割って rem にする', () => {
+        expect(formatLength(24, { unit: 'rem' })).toBe('1.5rem');
+        expect(formatLength(24, { unit: 'rem', rootFontSize: 10 })).toBe('2.4rem');
+    });
+
+    it('デザインの幅に対する割合で vw にする', () => {
+        expect(formatLength(144, { unit: 'vw', designWidth: 1440 })).toBe('10vw');
+        expect(formatLength(100, { unit: 'vw', designWidth: 375 })).toBe('26.6667vw');
+    });
+
+    it('デザインの幅がない場合の vw は px のままにする', () => {
+        expect(formatLength(144, { unit: 'vw' })).toBe('144px');
+    });
+
+    it('0 は単位を付けない', () => {
+        expect(formatLength(0, { unit: 'rem' })).toBe('0');
+        expect(formatLength(0)).toBe('0px');
+    });
+});
+
+describe('convertDeclarationUnits', () => {
+    it('値に含まれる px の長さを全て変換する', () => {
+        expect(convertDeclarationUnits('padding: 8px 16px 0px -4px', { unit: 'rem' })).toBe('padding: 0.5rem 1rem 0 -0.25rem');
+    });
+
+    it('border と outline の太さは px のままにする', () => {
+        expect(convertDeclarationUnits('border: 1px solid rgba(0, 0, 0, 1)', { unit: 'rem' })).toBe('border: 1px solid rgba(0, 0, 0, 1)');
+        expect(convertDeclarationUnits('outline: 2px solid red', { unit: 'rem' })).toBe('outline: 2px solid red');
+    });
+
+    it('url() の中は変換しない', () => {
+        expect(convertDeclarationUnits('background: url(./images/icon-16px.png) 8px 8px', { unit: 'rem' }))
+            .toBe('background: url(./images/icon-16px.png) 0.5rem 0.5rem');
+    });
+
+    it('px 単位の指定では変換しない', () => {
+        expect(convertDeclarationUnits('width: 320px', { unit: 'px' })).toBe('width: 320px');
+    });
+});
+
+describe('formatFluidDeclaration', () => {
+    it('2つの画面幅の間で線形に変化する clamp() にする', () => {
+        // (1440px, 32px) と (425px, 20px) を通る直線: 12 / 1015 * 100vw + (20 - 12 / 1015 * 425)px
+        expect(formatFluidDeclaration('font-size: 32px', 'font-size: 20px', 1440, 425))
+            .toBe('font-size: clamp(20px, 1.1823vw + 14.9754px, 32px)');
+    });
+
+    it('px 以外の単位では最小値・最大値・切片を rem にする', () => {
+        expect(formatFluidDeclaration('font-size: 32px', 'font-size: 20px', 1440, 425, { unit: 'vw', designWidth: 1440 }))
+            .toBe('font-size: clamp(1.25rem, 1.1823vw + 0.936rem, 2rem)');
+    });
+
+    it('切片が負の場合は減算にする', () => {
+        expect(formatFluidDeclaration('padding: 100px', 'padding: 10px', 1440, 425))
+            .toBe('padding: clamp(10px, 8.867vw - 27.6847px, 100px)');
+    });
+
+    it('複数の値を持つ場合は異なる値のみ clamp() にする', () => {
+        expect(formatFluidDeclaration('padding: 16px 24px', 'padding: 16px 16px', 1440, 425))
+            .toBe('padding: 16px clamp(16px, 0.7882vw + 12.6502px, 24px)');
+    });
+
+    it('px の値でない場合と、画面幅が同じ場合は変換しない', () => {
+        expect(formatFluidDeclaration('padding: 16px auto', 'padding: 8px auto', 1440, 425)).toBeUndefined();
+        expect(formatFluidDeclaration('padding: 16px 24px', 'padding: 8px', 1440, 425)).toBeUndefined();
+        expect(formatFluidDeclaration('font-size: 32px', 'font-size: 20px', 1440, 1440)).toBeUndefined();
+    });
+});
@@ -0,0 +1,15 @@
+import { defineConfig } from 'vite';
+import { resolve } from 'path';
+
+// スナップショットを変換するコマンドラインツール（Node）のビルド設定
+export default defineConfig({
+  build: {
+    ssr: resolve(__dirname, 'src/cli.ts'),
+    outDir: 'dist-cli',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'cli.mjs'
+      }
+    }
+  }
+});